@@ -124,6 +124,7 @@ export class HeboAgent extends BaseAgent {
       this.messageHistory.push({
         role: msg.role,
         content: msg.content,
+        ...(msg.attachments && { attachments: msg.attachments }),
       });
     }
 
@@ -131,7 +132,7 @@ export class HeboAgent extends BaseAgent {
       model: this.config.model,
       messages: this.messageHistory.map((msg) => ({
         role: roleMapper.toOpenAI(msg.role),
-        content: msg.content,
+        content: this.toInputContent(msg),
       })),
     };
 
@@ -151,7 +152,7 @@ export class HeboAgent extends BaseAgent {
     }
 
     try {
-      const response = await this.makeRequest(request);
+      const response = await this.makeRequest(request, input.signal);
 
       // Add assistant's response to history
       let finalResponse = '';
@@ -182,8 +183,8 @@ export class HeboAgent extends BaseAgent {
       if (response.output && response.output.length > 0) {
         const output = response.output[0];
         if (output.type === 'message' && output.status === 'completed') {
-          const content = output.content[0];
-          if (content.type === 'output_text') {
+          const content = output.content?.[0];
+          if (content?.type === 'output_text') {
             finalResponse = content.text;
           }
         }
@@ -236,8 +237,13 @@ export class HeboAgent extends BaseAgent {
 
   /**
    * Makes a request to the API
+   * @param request The request to send
+   * @param signal Cancels the request, in addition to its own timeout
    */
-  private async makeRequest(request: ResponseRequest): Promise<Response> {
+  private async makeRequest(
+    request: ResponseRequest,
+    signal?: AbortSignal,
+  ): Promise<Response> {
     if (!this.agentKey) {
       throw new Error('Agent is not authenticated');
     }
@@ -250,6 +256,12 @@ export class HeboAgent extends BaseAgent {
     // Create AbortController for timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 100000); // 100 seconds timeout
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', () => controller.abort(), {
+      once: true,
+    });
 
     try {
       const endpoint = `${this.baseUrl}/api/responses`;
@@ -308,7 +320,11 @@ export class HeboAgent extends BaseAgent {
 
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new Error('Request timed out after 100 seconds');
+          throw new Error(
+            signal?.aborted
+              ? 'Request was cancelled'
+              : 'Request timed out after 100 seconds',
+          );
         }
         // If it's already a gateway timeout error, pass it through
         if (error.message.includes('Gateway timeout')) {
@@ -1,10 +1,12 @@
 import { BaseAgent } from '../interfaces/base-agent.js';
 import { AgentConfig, AgentInput, AgentOutput } from '../types/agent.types.js';
 import {
+  InputItem,
   Response,
   ResponseRequest,
   OpenAIMessage,
 } from '../types/openai.types.js';
+import { ANY_TOOL_ARGS, ToolUsage } from '../../core/types/message.types.js';
 import { roleMapper } from '../../core/utils/role-mapper.js';
 import { AgentAuthConfig } from '../types/agent.types.js';
 import { IAgent } from '../interfaces/agent.interface.js';
@@ -59,6 +61,15 @@ export class OpenAIAgent extends BaseAgent {
     this.provider = config.provider;
   }
 
+  /**
+   * Declares the tools of its input as functions and returns the function
+   * calls of the model
+   * @returns True
+   */
+  public override supportsTools(): boolean {
+    return true;
+  }
+
   /**
    * Validates the OpenAI-specific configuration
    */
@@ -138,7 +149,10 @@ export class OpenAIAgent extends BaseAgent {
     }
 
     const output = response.output[0];
-    if (output.type !== 'message' || output.status !== 'completed') {
+    if (
+      (output.type !== 'message' && output.type !== 'function_call') ||
+      output.status !== 'completed'
+    ) {
       Logger.warn('Invalid output type or status', { output });
       return {
         isValid: false,
@@ -152,8 +166,67 @@ export class OpenAIAgent extends BaseAgent {
     return { isValid: true };
   }
 
+  /**
+   * Converts the message history into input items
+   *
+   * Tool uses become function calls followed by the outputs recorded for
+   * them, linked by position. Calls without a provider ID get a generated one.
+   *
+   * @param messages The message history
+   * @returns The input items, in conversation order
+   */
+  private toInputItems(messages: OpenAIMessage[]): InputItem[] {
+    let callCount = 0;
+
+    return messages.flatMap((msg): InputItem[] => {
+      const toolUsages = msg.toolUsages ?? [];
+      const callIds = toolUsages.map(
+        (usage) => usage.id ?? `call_${++callCount}`,
+      );
+      const message: InputItem[] =
+        msg.content || toolUsages.length === 0 || msg.attachments
+          ? [{ role: msg.role, content: this.toInputContent(msg) }]
+          : [];
+      const calls = toolUsages.map(
+        (usage, index): InputItem => ({
+          type: 'function_call',
+          call_id: callIds[index],
+          name: usage.name,
+          // A recorded call with any arguments is replayed without arguments
+          arguments: usage.args === ANY_TOOL_ARGS ? '{}' : usage.args,
+        }),
+      );
+      const outputs = (msg.toolResponses ?? []).slice(0, callIds.length).map(
+        (response, index): InputItem => ({
+          type: 'function_call_output',
+          call_id: callIds[index],
+          output: response.content,
+        }),
+      );
+      return [...message, ...calls, ...outputs];
+    });
+  }
+
+  /**
+   * Extracts the tool calls from the API response
+   * @param response The API response to extract tool calls from
+   * @returns The function calls of the response, in order
+   */
+  private extractToolCalls(response: Response): ToolUsage[] {
+    return (response.output ?? [])
+      .filter((output) => output.type === 'function_call')
+      .map((output) => ({
+        ...(output.call_id && { id: output.call_id }),
+        name: output.name ?? '',
+        args: output.arguments ?? '{}',
+      }));
+  }
+
   /**
    * Extracts the response text from the API response
+   *
+   * A response that only calls tools has no message, and so an empty text.
+   *
    * @param response The API response to extract text from
    * @returns Object containing the extracted text and error details if any
    */
@@ -161,6 +234,16 @@ export class OpenAIAgent extends BaseAgent {
     text: string;
     error?: { message: string; details: unknown };
   } {
+    const message = response.output?.find(
+      (output) => output.type === 'message',
+    );
+    if (
+      !message &&
+      response.output?.some((output) => output.type === 'function_call')
+    ) {
+      return { text: '' };
+    }
+
     if (!response.output?.[0]) {
       Logger.warn('No output in response');
       return {
@@ -172,7 +255,7 @@ export class OpenAIAgent extends BaseAgent {
       };
     }
 
-    const output = response.output[0];
+    const output = message ?? response.output[0];
     if (output.type !== 'message' || output.status !== 'completed') {
       Logger.warn('Invalid output type or status', { output });
       return {
@@ -184,7 +267,7 @@ export class OpenAIAgent extends BaseAgent {
       };
     }
 
-    const content = output.content[0];
+    const content = output.content?.[0];
     if (!content || content.type !== 'output_text') {
       Logger.warn('Invalid content type', { content });
       return {
@@ -216,12 +299,15 @@ export class OpenAIAgent extends BaseAgent {
       this.messageHistory.push({
         role: msg.role,
         content: msg.content,
+        ...(msg.attachments && { attachments: msg.attachments }),
+        ...(msg.toolUsages && { toolUsages: msg.toolUsages }),
+        ...(msg.toolResponses && { toolResponses: msg.toolResponses }),
       });
     }
 
     const request: ResponseRequest = {
       model: this.config.model,
-      input: this.messageHistory,
+      input: this.toInputItems(this.messageHistory),
       store: this.store,
     };
 
@@ -233,6 +319,16 @@ export class OpenAIAgent extends BaseAgent {
       });
     }
 
+    // Declare the tools the model may call
+    if (input.tools && input.tools.length > 0) {
+      request.tools = input.tools.map((tool) => ({
+        type: 'function',
+        name: tool.name,
+        ...(tool.description && { description: tool.description }),
+        parameters: tool.parameters ?? { type: 'object', properties: {} },
+      }));
+    }
+
     // Only add store and previous_response_id for Hebo provider
     if (this.provider === 'hebo') {
       request.store = this.store;
@@ -242,7 +338,7 @@ export class OpenAIAgent extends BaseAgent {
     }
 
     try {
-      const response = await this.makeRequest(request);
+      const response = await this.makeRequest(request, input.signal);
       this.previousResponseId = response.id;
 
       // Log the full response for debugging
@@ -280,12 +376,13 @@ export class OpenAIAgent extends BaseAgent {
       }
 
       const finalResponse = extractionResult.text;
+      const toolCalls = this.extractToolCalls(response);
 
       // Add assistant's response to history
       this.messageHistory.push({
         role: roleMapper.toRole(response.output?.[0]?.role ?? 'assistant'),
         content: finalResponse,
-        toolUsages: [],
+        toolUsages: toolCalls,
         toolResponses: [],
       });
 
@@ -294,6 +391,8 @@ export class OpenAIAgent extends BaseAgent {
 
       return {
         response: formattedResponse,
+        content: finalResponse,
+        ...(toolCalls.length > 0 && { toolCalls }),
         metadata: {
           id: response.id,
           model: response.model,
@@ -315,8 +414,13 @@ export class OpenAIAgent extends BaseAgent {
 
   /**
    * Makes a request to the OpenAI API
+   * @param request The request to send
+   * @param signal Cancels the request, in addition to its own timeout
    */
-  private async makeRequest(request: ResponseRequest): Promise<Response> {
+  private async makeRequest(
+    request: ResponseRequest,
+    signal?: AbortSignal,
+  ): Promise<Response> {
     if (!this.agentKey) {
       throw new Error('Agent is not authenticated');
     }
@@ -329,6 +433,12 @@ export class OpenAIAgent extends BaseAgent {
     // Create AbortController for timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 300000); // 5 minutes timeout
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', () => controller.abort(), {
+      once: true,
+    });
 
     try {
       const endpoint = `${this.baseUrl}/responses`;
@@ -411,7 +521,11 @@ export class OpenAIAgent extends BaseAgent {
       clearTimeout(timeoutId);
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new Error('Request timed out after 5 minutes');
+          throw new Error(
+            signal?.aborted
+              ? 'Request was cancelled'
+              : 'Request timed out after 5 minutes',
+          );
         }
         throw error;
       }
@@ -6,3 +6,5 @@
 export * from './types/agent.types';
 export * from './interfaces/agent.interface';
 export * from './interfaces/base-agent';
+export * from './tools/mock-tool-registry';
+export * from './tools/tool-loop';
@@ -39,6 +39,13 @@ export interface IAgent {
    */
   sendInput: (input: AgentInput) => Promise<AgentOutput>;
 
+  /**
+   * Tells whether the agent sends the tools of its input to the model and
+   * returns the tool calls the model makes
+   * @returns True if the agent can make tool calls
+   */
+  supportsTools?: () => boolean;
+
   /**
    * Validates the agent's configuration
    * @returns Promise that resolves with true if the configuration is valid
@@ -1,3 +1,4 @@
+import { basename } from 'path';
 import { IAgent } from './agent.interface';
 import {
   AgentConfig,
@@ -5,7 +6,9 @@ import {
   AgentOutput,
   AgentAuthConfig,
 } from '../types/agent.types';
+import { InputContentPart } from '../types/openai.types.js';
 import { BaseMessage, MessageRole } from '../../core/types/message.types.js';
+import { getContentParts } from '../../core/utils/content-parts.js';
 
 /**
  * Abstract base class for agent implementations
@@ -82,6 +85,15 @@ export abstract class BaseAgent implements IAgent {
     return this.processInput(input);
   }
 
+  /**
+   * Tells whether the agent can make tool calls; agents that send the tools
+   * of their input to the model override this
+   * @returns False by default
+   */
+  supportsTools(): boolean {
+    return false;
+  }
+
   /**
    * Validates the agent's configuration
    * @returns Promise that resolves with true if the configuration is valid
@@ -192,6 +204,40 @@ export abstract class BaseAgent implements IAgent {
     };
   }
 
+  /**
+   * Converts the content of a message into the form sent to the API
+   *
+   * Messages without attachments keep their plain text content. Otherwise the
+   * text and each attachment become typed content parts, with the files
+   * embedded as base64 data URLs.
+   *
+   * @param message The message to convert
+   * @returns The text content, or the content parts
+   * @throws Error if an attachment was not loaded
+   */
+  protected toInputContent(message: BaseMessage): string | InputContentPart[] {
+    if (!message.attachments || message.attachments.length === 0) {
+      return message.content;
+    }
+
+    return getContentParts(message).map((part): InputContentPart => {
+      if (part.type === 'text') {
+        return { type: 'input_text', text: part.text };
+      }
+      if (part.data === undefined) {
+        throw new Error(`Attachment ${part.path} has not been loaded`);
+      }
+      const dataUrl = `data:${part.mimeType};base64,${part.data}`;
+      return part.type === 'image'
+        ? { type: 'input_image', image_url: dataUrl }
+        : {
+            type: 'input_file',
+            filename: basename(part.path),
+            file_data: dataUrl,
+          };
+    });
+  }
+
   /**
    * Processes the input and returns the agent's response
    * @param input The input to process
@@ -0,0 +1,126 @@
+import { isDeepStrictEqual } from 'util';
+import {
+  ANY_TOOL_ARGS,
+  BaseMessage,
+  MessageRole,
+  ToolUsage,
+} from '../../core/types/message.types.js';
+
+/**
+ * A canned response of a mock tool
+ */
+interface MockResponse {
+  /**
+   * The arguments the response is selected by, or undefined for a static
+   * response returned whatever the arguments
+   */
+  args?: unknown;
+
+  /**
+   * The tool output returned to the agent
+   */
+  response: string;
+}
+
+/**
+ * Registry of mock tools that answer the tool calls of an agent with canned
+ * responses instead of executing anything
+ *
+ * A tool can have responses selected by argument, which are tried first in
+ * the order they were added, and a static response used for any other
+ * arguments. Calls of unknown tools, or with arguments no response is
+ * selected by, are rejected.
+ */
+export class MockToolRegistry {
+  private readonly responses = new Map<string, MockResponse[]>();
+
+  /**
+   * Creates a registry from the tool activity recorded in a conversation
+   *
+   * Each `tool use:` of an assistant message is answered with the
+   * `tool response:` at the same position, selected by its arguments, or
+   * the static response of the tool if written `args: *`.
+   *
+   * @param messages The recorded messages
+   * @returns The registry
+   */
+  public static fromMessages(messages: BaseMessage[]): MockToolRegistry {
+    const registry = new MockToolRegistry();
+    for (const message of messages) {
+      if (message.role !== MessageRole.ASSISTANT) continue;
+
+      (message.toolUsages ?? []).forEach((usage, index) => {
+        const response = message.toolResponses?.[index];
+        if (response) {
+          registry.addResponse(
+            usage.name,
+            response.content,
+            usage.args === ANY_TOOL_ARGS ? undefined : usage.args,
+          );
+        }
+      });
+    }
+    return registry;
+  }
+
+  /**
+   * Adds a canned response for a tool
+   * @param name The name of the tool
+   * @param response The tool output returned to the agent
+   * @param args The arguments, as a JSON string, that select this response; any arguments if omitted
+   * @throws Error if the arguments are not valid JSON
+   */
+  public addResponse(name: string, response: string, args?: string): void {
+    let parsedArgs: unknown;
+    if (args !== undefined) {
+      try {
+        parsedArgs = JSON.parse(args);
+      } catch {
+        throw new Error(`Invalid arguments for mock tool "${name}": ${args}`);
+      }
+    }
+
+    const responses = this.responses.get(name) ?? [];
+    responses.push({ args: parsedArgs, response });
+    this.responses.set(name, responses);
+  }
+
+  /**
+   * Answers a tool call with a canned response
+   * @param call The tool call of the agent
+   * @returns The tool output
+   * @throws Error if the tool is unknown or no response matches the arguments
+   */
+  public respond(call: ToolUsage): string {
+    const responses = this.responses.get(call.name);
+    if (!responses) {
+      throw new Error(`Unexpected call of unknown tool "${call.name}"`);
+    }
+
+    let args: unknown;
+    try {
+      args = JSON.parse(call.args || '{}');
+    } catch {
+      args = undefined;
+    }
+    const match =
+      responses.find(
+        (candidate) =>
+          candidate.args !== undefined &&
+          isDeepStrictEqual(candidate.args, args),
+      ) ?? responses.find((candidate) => candidate.args === undefined);
+    if (!match) {
+      throw new Error(
+        `Unexpected call of tool "${call.name}" with args: ${call.args}`,
+      );
+    }
+    return match.response;
+  }
+
+  /**
+   * Whether the registry has any tools
+   */
+  public get isEmpty(): boolean {
+    return this.responses.size === 0;
+  }
+}
@@ -0,0 +1,70 @@
+import { IAgent } from '../interfaces/agent.interface.js';
+import { AgentInput, AgentOutput } from '../types/agent.types.js';
+import {
+  BaseMessage,
+  MessageRole,
+  ToolUsage,
+} from '../../core/types/message.types.js';
+import { MockToolRegistry } from './mock-tool-registry.js';
+
+/**
+ * Default maximum number of requests sent to the agent for one reply
+ */
+export const DEFAULT_MAX_TOOL_STEPS = 5;
+
+/**
+ * Runs the tool calling loop of an agent against mock tools
+ *
+ * Whenever the agent replies with tool calls, the calls are answered from the
+ * registry and the conversation is sent again, until the agent replies
+ * without calling a tool.
+ */
+export class ToolLoop {
+  /**
+   * @param agent The agent to send input to
+   * @param registry The mock tools answering the tool calls
+   * @param maxSteps The maximum number of requests sent for one reply
+   */
+  constructor(
+    private readonly agent: IAgent,
+    private readonly registry: MockToolRegistry,
+    private readonly maxSteps: number = DEFAULT_MAX_TOOL_STEPS,
+  ) {}
+
+  /**
+   * Sends input to the agent and answers its tool calls until it gives a
+   * final answer
+   * @param input The input to send
+   * @returns Promise that resolves with the final output, its `toolCalls` holding every call made along the way
+   * @throws Error if a tool call is unexpected or the agent is still calling tools after the maximum number of steps
+   */
+  public async sendInput(input: AgentInput): Promise<AgentOutput> {
+    const messages: BaseMessage[] = [...input.messages];
+    const toolCalls: ToolUsage[] = [];
+
+    for (let step = 1; step <= this.maxSteps; step++) {
+      input.signal?.throwIfAborted();
+      const output = await this.agent.sendInput({
+        ...input,
+        messages: [...messages],
+      });
+      if (output.error || !output.toolCalls || output.toolCalls.length === 0) {
+        return { ...output, ...(toolCalls.length > 0 && { toolCalls }) };
+      }
+
+      toolCalls.push(...output.toolCalls);
+      messages.push({
+        role: MessageRole.ASSISTANT,
+        content: output.content ?? output.response,
+        toolUsages: output.toolCalls,
+        toolResponses: output.toolCalls.map((call) => ({
+          content: this.registry.respond(call),
+        })),
+      });
+    }
+
+    throw new Error(
+      `Agent did not give a final answer within ${this.maxSteps} tool steps`,
+    );
+  }
+}
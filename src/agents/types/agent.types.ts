@@ -1,4 +1,8 @@
-import { BaseMessage } from '../../core/types/message.types';
+import {
+  BaseMessage,
+  ToolDefinition,
+  ToolUsage,
+} from '../../core/types/message.types';
 
 /**
  * Represents the base configuration for an agent
@@ -37,6 +41,16 @@ export interface AgentInput {
    * List of messages to send to the agent
    */
   messages: BaseMessage[];
+
+  /**
+   * Tools the agent may call while responding
+   */
+  tools?: ToolDefinition[];
+
+  /**
+   * Cancels the request to the agent, e.g. when the test case times out
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -48,6 +62,17 @@ export interface AgentOutput {
    */
   response: string;
 
+  /**
+   * The text of the reply as the agent sent it, when `response` adds display
+   * formatting such as a role prefix
+   */
+  content?: string;
+
+  /**
+   * The tool calls the agent made while responding, in order
+   */
+  toolCalls?: ToolUsage[];
+
   /**
    * Optional metadata about the response
    */
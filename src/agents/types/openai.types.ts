@@ -15,6 +15,66 @@ export interface OpenAIMessage extends BaseMessage {
   };
 }
 
+/**
+ * A typed content part of an input message
+ * - input_text: text of the message
+ * - input_image: an image, as a URL or base64 data URL
+ * - input_file: a document, as a base64 data URL
+ */
+export type InputContentPart =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_image'; image_url: string }
+  | { type: 'input_file'; filename: string; file_data: string };
+
+/**
+ * A message sent to the API, with plain text content or, when it has
+ * attachments, a list of content parts
+ */
+export interface InputMessage {
+  role: string;
+  content: string | InputContentPart[];
+}
+
+/**
+ * A tool call made by the model earlier in the conversation
+ */
+export interface FunctionCallItem {
+  type: 'function_call';
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * The output of a tool call, linked to the call by its ID
+ */
+export interface FunctionCallOutputItem {
+  type: 'function_call_output';
+  call_id: string;
+  output: string;
+}
+
+/**
+ * An item of the input sent to the Response API
+ */
+export type InputItem =
+  | InputMessage
+  | FunctionCallItem
+  | FunctionCallOutputItem;
+
+/**
+ * A function tool the model may call
+ */
+export interface FunctionTool {
+  type: 'function';
+  name: string;
+  description?: string;
+  /**
+   * JSON schema of the function arguments
+   */
+  parameters: Record<string, unknown>;
+}
+
 /**
  * Represents a request to the OpenAI Response API
  */
@@ -27,15 +87,17 @@ export interface ResponseRequest {
   /**
    * The messages to send to the API (for Hebo API)
    */
-  messages?: Array<{
-    role: string;
-    content: string;
-  }>;
+  messages?: InputMessage[];
 
   /**
    * The input messages to send to the API (for OpenAI API)
    */
-  input?: OpenAIMessage[];
+  input?: InputItem[];
+
+  /**
+   * The tools the model may call (for OpenAI API)
+   */
+  tools?: FunctionTool[];
 
   /**
    * Whether to store the conversation (for OpenAI API)
@@ -111,12 +173,27 @@ export interface Response {
     type: string;
     id: string;
     status: string;
-    role: string;
-    content: Array<{
+    role?: string;
+    content?: Array<{
       type: string;
       text: string;
       annotations: unknown[];
     }>;
+
+    /**
+     * The name of the called tool (for `function_call` items)
+     */
+    name?: string;
+
+    /**
+     * The arguments of the call as a JSON string (for `function_call` items)
+     */
+    arguments?: string;
+
+    /**
+     * The ID linking the call to its output (for `function_call` items)
+     */
+    call_id?: string;
   }>;
 
   /**
@@ -13,7 +13,27 @@ import { join } from 'path';
 import { IEmbeddingProvider } from './embeddings/interfaces/embedding-provider.interface.js';
 import { IAgent } from './agents/interfaces/agent.interface.js';
 import { createAgent } from './agents/factory/agent.factory.js';
+import { DEFAULT_MAX_TOOL_STEPS } from './agents/tools/tool-loop.js';
 import { getProviderBaseUrl } from './utils/provider-config.js';
+import {
+  CsvColumnMapping,
+  CsvColumnMappingSchema,
+} from './parser/csv-parser.js';
+import { convertFile } from './converter/converter.js';
+import { findTextFiles, formatFile } from './converter/text-formatter.js';
+import {
+  RoleAliases,
+  RoleAliasesSchema,
+  RoleRegistry,
+} from './core/utils/role-registry.js';
+import {
+  formatLoadError,
+  LoaderOptions,
+  TestCaseLoader,
+} from './parser/loader.js';
+import { ParseError } from './parser/errors.js';
+import { TestCaseValidator } from './parser/validator.js';
+import { TEST_CASE_FORMATS, TestCaseFormat } from './converter/serializers.js';
 
 /**
  * Main CLI entry point for Hebo Eval
@@ -26,13 +46,48 @@ export const program = new Command();
  * Interface for run command options
  */
 interface RunCommandOptions {
-  directory?: string;
+  directory: string[];
   config?: string;
   threshold: string;
   format: string;
   stopOnError: boolean;
   maxConcurrency: string;
   verbose: boolean;
+  grep?: string;
+  tag: string[];
+  excludeTag: string[];
+  referenceAggregation: string;
+  csvColumns?: string;
+  turnByTurn: boolean;
+  maxToolSteps: string;
+  roleAlias: string[];
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Interface for convert command options
+ */
+interface ConvertCommandOptions {
+  to?: string;
+}
+
+/**
+ * Interface for the options of the commands that load test cases
+ */
+interface LoaderCommandOptions {
+  config?: string;
+  csvColumns?: string;
+  roleAlias: string[];
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Interface for fmt command options
+ */
+interface FmtCommandOptions extends LoaderCommandOptions {
+  check?: boolean;
 }
 
 /**
@@ -44,6 +99,7 @@ interface CliConfig {
     agentKey: string;
     provider: string;
   };
+  roleAliases?: RoleAliases;
 }
 
 /**
@@ -64,6 +120,107 @@ function loadConfig(configPath: string): CliConfig {
   }
 }
 
+/**
+ * Collects the values of a repeatable option
+ * @param value The value passed for the current occurrence
+ * @param previous The values collected so far
+ * @returns The collected values
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parses a `field=column` list into a CSV column mapping
+ * @param value The mapping, e.g. `input=question,expected=answer`
+ * @returns The validated column mapping
+ * @throws Error if the mapping is malformed or names an unknown field
+ */
+function parseCsvColumns(value: string): Partial<CsvColumnMapping> {
+  const entries = value.split(',').map((pair) => {
+    const [field, column] = pair.split('=').map((part) => part.trim());
+    if (!field || !column) {
+      throw new Error(
+        `Configuration error: \`--csv-columns\` must be a list of field=column pairs, got "${pair}"`,
+      );
+    }
+    return [field, column];
+  });
+  const result = CsvColumnMappingSchema.safeParse(Object.fromEntries(entries));
+  if (!result.success) {
+    throw new Error(
+      `Configuration error: \`--csv-columns\` must be a list of field=column pairs with fields ${Object.keys(CsvColumnMappingSchema.shape).join(', ')}`,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Parses `alias=role` pairs into role aliases, on top of the aliases of the
+ * config file
+ * @param values The pairs, e.g. `customer=user`
+ * @param configured The `roleAliases` of the config file, if any
+ * @returns The validated role aliases
+ * @throws Error if a pair is malformed or an alias is invalid
+ */
+function parseRoleAliases(
+  values: string[],
+  configured: unknown = {},
+): RoleAliases {
+  const result = RoleAliasesSchema.safeParse(configured);
+  if (!result.success) {
+    throw new Error(
+      'Configuration error: `roleAliases` in config file must map role names to roles',
+    );
+  }
+  const aliases: RoleAliases = {
+    ...result.data,
+    ...Object.fromEntries(
+      values.map((value) => {
+        const [alias, role] = value.split('=').map((part) => part.trim());
+        if (!alias || !role) {
+          throw new Error(
+            `Configuration error: \`--role-alias\` must be an alias=role pair, got "${value}"`,
+          );
+        }
+        return [alias, role];
+      }),
+    ),
+  };
+
+  // Reject the aliases the loader would refuse before any file is read
+  try {
+    new RoleRegistry(aliases);
+  } catch (error) {
+    throw new Error(
+      `Configuration error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return aliases;
+}
+
+/**
+ * Gets the options for loading test cases, so that every command that loads
+ * them reads the same test cases
+ * @param options The options of the command
+ * @param configuredAliases The `roleAliases` of the config file, if any
+ * @returns The loader options
+ * @throws Error if an option is invalid
+ */
+function getLoaderOptions(
+  options: LoaderCommandOptions,
+  configuredAliases?: unknown,
+): LoaderOptions {
+  return {
+    csvColumns: options.csvColumns
+      ? parseCsvColumns(options.csvColumns)
+      : undefined,
+    roleAliases: parseRoleAliases(options.roleAlias, configuredAliases),
+    include: options.include,
+    exclude: options.exclude,
+  };
+}
+
 /**
  * Creates and configures the CLI program
  * @returns Configured Commander program
@@ -81,13 +238,20 @@ program
   });
 
 program
-  .command('run <agent>')
-  .description('Run evaluation on an agent')
-  .option('-d, --directory <path>', 'Directory containing test cases')
+  .command('run <agent> [paths...]')
+  .description(
+    'Run evaluation on an agent, optionally only for the given test case files, directories or file#Title selectors',
+  )
+  .option(
+    '-d, --directory <path>',
+    'Directory or file containing test cases (repeatable)',
+    collect,
+    [],
+  )
   .option('-c, --config <path>', 'Path to configuration file')
   .option(
     '-t, --threshold <number>',
-    'Score threshold for passing (0-1)',
+    'Default score threshold for passing (0-1), overridable per test case, file or directory',
     '0.8',
   )
   .option('-f, --format <format>', 'Output format (json|markdown|text)', 'text')
@@ -102,198 +266,491 @@ program
     'Show verbose output including test results and provider information',
     false,
   )
-  .action(async (agent: string, options: RunCommandOptions) => {
-    let heboAgent: IAgent | undefined;
-    let embeddingProvider: IEmbeddingProvider | undefined;
-    try {
-      // Configure logger verbosity
-      Logger.configure({
-        verbose: options.verbose,
-      });
-
-      // Load configuration from file, environment, or defaults
-      let config;
-      if (options.config) {
-        config = loadConfig(options.config);
-
-        // Validate agent configuration
-        if (!config.agent?.agentKey) {
+  .option(
+    '-g, --grep <pattern>',
+    'Only run test cases whose ID matches the regular expression',
+  )
+  .option(
+    '--tag <tag>',
+    'Only run test cases with this tag (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '--exclude-tag <tag>',
+    'Skip test cases with this tag (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '-r, --reference-aggregation <mode>',
+    'How to combine scores against alternative references (best|mean)',
+    'best',
+  )
+  .option(
+    '--turn-by-turn',
+    'Evaluate every assistant turn against the recorded conversation, not just the last one',
+    false,
+  )
+  .option(
+    '--max-tool-steps <number>',
+    'Maximum number of requests per reply when the agent calls mock tools',
+    String(DEFAULT_MAX_TOOL_STEPS),
+  )
+  .option(
+    '--csv-columns <mapping>',
+    'Column names for CSV datasets, e.g. input=question,expected=answer,system=prompt',
+  )
+  .option(
+    '--role-alias <alias=role>',
+    'Accept another role name in test cases, e.g. customer=user (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '--include <glob>',
+    'Only load files found in directories that match the glob (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '--exclude <glob>',
+    'Leave out files and directories that match the glob (repeatable)',
+    collect,
+    [],
+  )
+  .action(
+    async (agent: string, paths: string[], options: RunCommandOptions) => {
+      let heboAgent: IAgent | undefined;
+      let embeddingProvider: IEmbeddingProvider | undefined;
+      try {
+        // Configure logger verbosity
+        Logger.configure({
+          verbose: options.verbose,
+        });
+
+        // Load configuration from file, environment, or defaults
+        let config;
+        if (options.config) {
+          config = loadConfig(options.config);
+
+          // Validate agent configuration
+          if (!config.agent?.agentKey) {
+            throw new Error(
+              'Configuration error: Agent API key is required in config file',
+            );
+          }
+
+          // Validate embedding configuration
+          if (!config.embedding?.provider) {
+            throw new Error(
+              'Configuration error: Embedding provider is required in config file',
+            );
+          }
+          if (!config.embedding?.apiKey) {
+            throw new Error(
+              'Configuration error: Embedding API key is required in config file',
+            );
+          }
+          if (!config.embedding?.model) {
+            throw new Error(
+              'Configuration error: Embedding model is required in config file',
+            );
+          }
+        } else {
+          // Load from environment variables
+          config = {
+            embedding: EmbeddingProviderFactory.loadFromEnv(),
+            agent: {
+              agentKey: process.env.HEBO_AGENT_API_KEY,
+              provider: process.env.HEBO_AGENT_PROVIDER || 'hebo', // Default to hebo if not specified
+            },
+          };
+
+          //Validate embedding configuration
+          if (!config.embedding || Object.keys(config.embedding).length === 0) {
+            Logger.warn(
+              'Configuration warning: No embedding configuration found in environment variables',
+            );
+          }
+        }
+        // Validate required configuration
+        if (
+          !config.agent ||
+          !('agentKey' in config.agent) ||
+          !config.agent.agentKey
+        ) {
+          throw new Error(
+            'Configuration error: HEBO_AGENT_API_KEY or HEBO_API_KEY environment variable or config file is required',
+          );
+        }
+
+        // Initialize agent using factory
+        try {
+          heboAgent = createAgent({
+            model: agent,
+            baseUrl: getProviderBaseUrl(config.agent.provider),
+            provider: config.agent.provider,
+          });
+
+          // Validate agent initialization
+          await heboAgent.initialize({
+            model: agent,
+            provider: config.agent.provider,
+          });
+          await heboAgent.authenticate({ agentKey: config.agent.agentKey });
+        } catch (error) {
+          if (
+            error instanceof Error &&
+            error.message.includes('Configuration error')
+          ) {
+            throw new Error(error.message);
+          }
+          throw new Error(
+            `Failed to initialize agent: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+
+        // Initialize scoring service with embedding provider
+        let embeddingSystemConfig;
+        if ('defaultProvider' in config.embedding) {
+          // Already an EmbeddingSystemConfig
+          embeddingSystemConfig = config.embedding;
+        } else if ('provider' in config.embedding) {
+          // Convert EmbeddingConfig to EmbeddingSystemConfig
+          embeddingSystemConfig = {
+            defaultProvider: config.embedding.provider,
+            model: config.embedding.model,
+            baseUrl: config.embedding.baseUrl,
+            apiKey: config.embedding.apiKey,
+          };
+        } else {
           throw new Error(
-            'Configuration error: Agent API key is required in config file',
+            'Configuration error: Invalid embedding configuration: missing provider information',
           );
         }
 
-        // Validate embedding configuration
-        if (!config.embedding?.provider) {
+        // Validate embedding provider initialization
+        try {
+          embeddingProvider = EmbeddingProviderFactory.createProvider(
+            embeddingSystemConfig,
+          );
+          await embeddingProvider.initialize({
+            provider: embeddingSystemConfig.defaultProvider,
+            model: embeddingSystemConfig.model,
+            baseUrl: embeddingSystemConfig.baseUrl,
+            apiKey: embeddingSystemConfig.apiKey,
+          });
+
+          // Test embedding provider with a simple request
+          try {
+            await embeddingProvider.generateEmbedding('test');
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            if (errorMessage.includes('401')) {
+              throw new Error(
+                `Configuration error: Failed to authenticate embedding provider: ${errorMessage}\n\nPlease check:\n1. Your embedding API key is correct and has not expired\n2. The provider (${embeddingSystemConfig.defaultProvider}) matches your API key\n3. The base URL (${embeddingSystemConfig.baseUrl}) is correct for your provider`,
+              );
+            }
+            throw new Error(
+              `Configuration error: Failed to authenticate embedding provider: ${errorMessage}`,
+            );
+          }
+        } catch (error) {
           throw new Error(
-            'Configuration error: Embedding provider is required in config file',
+            `Configuration error: Failed to initialize embedding provider: ${error instanceof Error ? error.message : String(error)}`,
           );
         }
-        if (!config.embedding?.apiKey) {
+
+        // Create scoring service only after both services are initialized
+        const scoringService = new ScoringService(embeddingProvider);
+
+        // Validate evaluation configuration
+        const threshold = Number(options.threshold);
+        const maxConcurrency = Number(options.maxConcurrency);
+        if (isNaN(threshold) || threshold < 0 || threshold > 1) {
           throw new Error(
-            'Configuration error: Embedding API key is required in config file',
+            'Configuration error: `--threshold` must be a number between 0 and 1',
           );
         }
-        if (!config.embedding?.model) {
+        if (!Number.isInteger(maxConcurrency) || maxConcurrency <= 0) {
           throw new Error(
-            'Configuration error: Embedding model is required in config file',
+            'Configuration error: `--max-concurrency` must be a positive integer',
           );
         }
-      } else {
-        // Load from environment variables
-        config = {
-          embedding: EmbeddingProviderFactory.loadFromEnv(),
-          agent: {
-            agentKey: process.env.HEBO_AGENT_API_KEY,
-            provider: process.env.HEBO_AGENT_PROVIDER || 'hebo', // Default to hebo if not specified
+        const maxToolSteps = Number(options.maxToolSteps);
+        if (!Number.isInteger(maxToolSteps) || maxToolSteps <= 0) {
+          throw new Error(
+            'Configuration error: `--max-tool-steps` must be a positive integer',
+          );
+        }
+        if (options.grep !== undefined) {
+          try {
+            new RegExp(options.grep);
+          } catch (error) {
+            throw new Error(
+              `Configuration error: \`--grep\` must be a valid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        }
+        if (!['best', 'mean'].includes(options.referenceAggregation)) {
+          throw new Error(
+            'Configuration error: `--reference-aggregation` must be either "best" or "mean"',
+          );
+        }
+        const evalConfig: EvaluationConfig = {
+          threshold,
+          outputFormat: options.format as 'json' | 'markdown' | 'text',
+          maxConcurrency,
+          filter: {
+            grep: options.grep,
+            tags: options.tag,
+            excludeTags: options.excludeTag,
           },
+          referenceAggregation: options.referenceAggregation as 'best' | 'mean',
+          turnByTurn: options.turnByTurn,
+          maxToolSteps,
+          ...getLoaderOptions(
+            options,
+            'roleAliases' in config ? config.roleAliases : undefined,
+          ),
         };
 
-        //Validate embedding configuration
-        if (!config.embedding || Object.keys(config.embedding).length === 0) {
-          Logger.warn(
-            'Configuration warning: No embedding configuration found in environment variables',
+        // Only show configuration in verbose mode
+        if (options.verbose) {
+          Logger.info(
+            `Running ${agent} (${config.agent.provider}) with threshold ${options.threshold}`,
           );
         }
-      }
-      // Validate required configuration
-      if (
-        !config.agent ||
-        !('agentKey' in config.agent) ||
-        !config.agent.agentKey
-      ) {
-        throw new Error(
-          'Configuration error: HEBO_AGENT_API_KEY or HEBO_API_KEY environment variable or config file is required',
+
+        // Create and run evaluation
+        const executor = new EvaluationExecutor(scoringService, evalConfig);
+        const testPaths = [...paths, ...options.directory];
+        await executor.evaluateFromPaths(
+          heboAgent,
+          testPaths.length > 0 ? testPaths : [join(process.cwd(), 'examples')],
+          options.stopOnError || false,
         );
+
+        Logger.info('Evaluation completed');
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        Logger.error(errorMessage);
+        process.exit(1);
+      } finally {
+        // Always attempt to free resources
+        await Promise.allSettled([
+          heboAgent?.cleanup?.(),
+          embeddingProvider?.cleanup?.(),
+        ]);
       }
+    },
+  );
 
-      // Initialize agent using factory
+program
+  .command('convert <input> <output>')
+  .description(
+    'Convert a test case file between the text, JSONL, YAML and OpenAI fine-tuning formats',
+  )
+  .option(
+    '--to <format>',
+    `Output format (${TEST_CASE_FORMATS.join('|')}), inferred from the output extension by default`,
+  )
+  .action(
+    async (input: string, output: string, options: ConvertCommandOptions) => {
       try {
-        heboAgent = createAgent({
-          model: agent,
-          baseUrl: getProviderBaseUrl(config.agent.provider),
-          provider: config.agent.provider,
-        });
-
-        // Validate agent initialization
-        await heboAgent.initialize({
-          model: agent,
-          provider: config.agent.provider,
-        });
-        await heboAgent.authenticate({ agentKey: config.agent.agentKey });
-      } catch (error) {
         if (
-          error instanceof Error &&
-          error.message.includes('Configuration error')
+          options.to !== undefined &&
+          !TEST_CASE_FORMATS.includes(options.to as TestCaseFormat)
         ) {
-          throw new Error(error.message);
+          throw new Error(
+            `Configuration error: \`--to\` must be one of: ${TEST_CASE_FORMATS.join(', ')}`,
+          );
         }
-        throw new Error(
-          `Failed to initialize agent: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
 
-      // Initialize scoring service with embedding provider
-      let embeddingSystemConfig;
-      if ('defaultProvider' in config.embedding) {
-        // Already an EmbeddingSystemConfig
-        embeddingSystemConfig = config.embedding;
-      } else if ('provider' in config.embedding) {
-        // Convert EmbeddingConfig to EmbeddingSystemConfig
-        embeddingSystemConfig = {
-          defaultProvider: config.embedding.provider,
-          model: config.embedding.model,
-          baseUrl: config.embedding.baseUrl,
-          apiKey: config.embedding.apiKey,
-        };
-      } else {
-        throw new Error(
-          'Configuration error: Invalid embedding configuration: missing provider information',
+        const result = await convertFile(input, output, {
+          to: options.to as TestCaseFormat | undefined,
+        });
+        Logger.success(
+          `Converted ${result.testCases} test case(s) from ${input} to ${output} (${result.format})`,
         );
+      } catch (error) {
+        // convert has no --verbose option, so the error is always shown
+        Logger.fatal(error instanceof Error ? error.message : String(error));
+        process.exit(1);
       }
+    },
+  );
 
-      // Validate embedding provider initialization
+program
+  .command('validate [directory]')
+  .description(
+    'Check test case files for problems without running them against an agent',
+  )
+  .option(
+    '-c, --config <path>',
+    'Path to configuration file, for its role aliases',
+  )
+  .option(
+    '--csv-columns <mapping>',
+    'Column names for CSV datasets, e.g. input=question,expected=answer,system=prompt',
+  )
+  .option(
+    '--role-alias <alias=role>',
+    'Accept another role name in test cases, e.g. customer=user (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '--include <glob>',
+    'Only load files found in directories that match the glob (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '--exclude <glob>',
+    'Leave out files and directories that match the glob (repeatable)',
+    collect,
+    [],
+  )
+  .action(
+    async (directory: string | undefined, options: LoaderCommandOptions) => {
       try {
-        embeddingProvider = EmbeddingProviderFactory.createProvider(
-          embeddingSystemConfig,
+        const loader = new TestCaseLoader(
+          process.cwd(),
+          getLoaderOptions(
+            options,
+            options.config ? loadConfig(options.config).roleAliases : undefined,
+          ),
+        );
+        const result = await new TestCaseValidator(loader).validateDirectory(
+          directory || join(process.cwd(), 'examples'),
         );
-        await embeddingProvider.initialize({
-          provider: embeddingSystemConfig.defaultProvider,
-          model: embeddingSystemConfig.model,
-          baseUrl: embeddingSystemConfig.baseUrl,
-          apiKey: embeddingSystemConfig.apiKey,
-        });
 
-        // Test embedding provider with a simple request
-        try {
-          await embeddingProvider.generateEmbedding('test');
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          if (errorMessage.includes('401')) {
-            throw new Error(
-              `Configuration error: Failed to authenticate embedding provider: ${errorMessage}\n\nPlease check:\n1. Your embedding API key is correct and has not expired\n2. The provider (${embeddingSystemConfig.defaultProvider}) matches your API key\n3. The base URL (${embeddingSystemConfig.baseUrl}) is correct for your provider`,
-            );
-          }
-          throw new Error(
-            `Configuration error: Failed to authenticate embedding provider: ${errorMessage}`,
+        // Problems are logged as warnings, which are shown without --verbose
+        for (const error of [...result.errors, ...result.warnings]) {
+          Logger.warn(formatLoadError(error));
+        }
+        for (const problem of result.problems) {
+          Logger.warn(`${problem.testCaseId}: ${problem.message}`);
+        }
+
+        const problemCount =
+          result.errors.length +
+          result.warnings.length +
+          result.problems.length;
+        if (problemCount > 0) {
+          Logger.warn(
+            `Found ${problemCount} problem(s) in ${directory || 'examples'}`,
           );
+          process.exit(1);
         }
-      } catch (error) {
-        throw new Error(
-          `Configuration error: Failed to initialize embedding provider: ${error instanceof Error ? error.message : String(error)}`,
+        Logger.success(
+          `Validated ${result.testCaseCount} test case(s) with no problems`,
         );
+      } catch (error) {
+        // validate has no --verbose option, so the error is always shown
+        Logger.fatal(error instanceof Error ? error.message : String(error));
+        process.exit(1);
       }
+    },
+  );
 
-      // Create scoring service only after both services are initialized
-      const scoringService = new ScoringService(embeddingProvider);
+program
+  .command('fmt [paths...]')
+  .description('Rewrite text test case files in a canonical layout')
+  .option(
+    '-c, --config <path>',
+    'Path to configuration file, for its role aliases',
+  )
+  .option(
+    '--check',
+    'Report files that are not formatted without changing them',
+  )
+  .option(
+    '--csv-columns <mapping>',
+    'Column names for CSV datasets, e.g. input=question,expected=answer,system=prompt',
+  )
+  .option(
+    '--role-alias <alias=role>',
+    'Accept another role name in test cases, e.g. customer=user (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '--include <glob>',
+    'Only load files found in directories that match the glob (repeatable)',
+    collect,
+    [],
+  )
+  .option(
+    '--exclude <glob>',
+    'Leave out files and directories that match the glob (repeatable)',
+    collect,
+    [],
+  )
+  .action(async (paths: string[], options: FmtCommandOptions) => {
+    try {
+      const loaderOptions = getLoaderOptions(
+        options,
+        options.config ? loadConfig(options.config).roleAliases : undefined,
+      );
+      const files = await findTextFiles(
+        paths.length > 0 ? paths : [join(process.cwd(), 'examples')],
+        loaderOptions,
+      );
 
-      // Validate evaluation configuration
-      const threshold = Number(options.threshold);
-      const maxConcurrency = Number(options.maxConcurrency);
-      if (isNaN(threshold) || threshold < 0 || threshold > 1) {
-        throw new Error(
-          'Configuration error: `--threshold` must be a number between 0 and 1',
-        );
+      // Each file is formatted on its own, so one bad file does not stop the rest
+      let changed = 0;
+      let failed = 0;
+      for (const file of files) {
+        try {
+          const result = await formatFile(file, {
+            ...loaderOptions,
+            check: options.check,
+          });
+          if (result.changed) {
+            changed++;
+            if (options.check) {
+              Logger.warn(`${file} is not formatted`);
+            }
+          }
+        } catch (error) {
+          // fmt has no --verbose option, so failures are always shown
+          failed++;
+          Logger.fatal(
+            formatLoadError({
+              filePath: (error instanceof ParseError && error.filePath) || file,
+              message: error instanceof Error ? error.message : String(error),
+              ...(error instanceof ParseError && {
+                line: error.lineNumber,
+                column: error.column,
+              }),
+            }),
+          );
+        }
       }
-      if (!Number.isInteger(maxConcurrency) || maxConcurrency <= 0) {
-        throw new Error(
-          'Configuration error: `--max-concurrency` must be a positive integer',
-        );
+
+      if (options.check && changed > 0) {
+        Logger.warn(`${changed} of ${files.length} file(s) are not formatted`);
       }
-      const evalConfig: EvaluationConfig = {
-        threshold,
-        outputFormat: options.format as 'json' | 'markdown' | 'text',
-        maxConcurrency,
-      };
-
-      // Only show configuration in verbose mode
-      if (options.verbose) {
-        Logger.info(
-          `Running ${agent} (${config.agent.provider}) with threshold ${options.threshold}`,
+      if (failed > 0) {
+        Logger.fatal(
+          `${failed} of ${files.length} file(s) could not be formatted`,
         );
       }
-
-      // Create and run evaluation
-      const executor = new EvaluationExecutor(scoringService, evalConfig);
-      await executor.evaluateFromDirectory(
-        heboAgent,
-        options.directory || join(process.cwd(), 'examples'),
-        options.stopOnError || false,
-      );
-
-      Logger.info('Evaluation completed');
+      if (failed > 0 || (options.check && changed > 0)) {
+        process.exit(1);
+      } else if (options.check) {
+        Logger.success(`All ${files.length} file(s) are formatted`);
+      } else {
+        Logger.success(`Formatted ${changed} of ${files.length} file(s)`);
+      }
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      Logger.error(errorMessage);
+      Logger.fatal(error instanceof Error ? error.message : String(error));
       process.exit(1);
-    } finally {
-      // Always attempt to free resources
-      await Promise.allSettled([
-        heboAgent?.cleanup?.(),
-        embeddingProvider?.cleanup?.(),
-      ]);
     }
   });
 
@@ -0,0 +1,77 @@
+import { writeFile } from 'fs/promises';
+import { dirname, extname } from 'path';
+import { TestCaseLoader } from '../parser/loader.js';
+import {
+  serializeTestCases,
+  TEST_CASE_FORMATS,
+  TestCaseFormat,
+} from './serializers.js';
+
+/**
+ * Formats implied by output file extensions
+ */
+const FORMATS_BY_EXTENSION: Record<string, TestCaseFormat> = {
+  '.txt': 'text',
+  '.md': 'text',
+  '.jsonl': 'jsonl',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+/**
+ * Options for converting a test case file
+ */
+export interface ConvertOptions {
+  /**
+   * Format to write; inferred from the output extension when omitted
+   */
+  to?: TestCaseFormat;
+}
+
+/**
+ * Result of converting a test case file
+ */
+export interface ConvertResult {
+  /**
+   * Number of test cases written
+   */
+  testCases: number;
+
+  /**
+   * Format that was written
+   */
+  format: TestCaseFormat;
+}
+
+/**
+ * Converts a test case file into another format
+ *
+ * The input is read with the loader matching its extension, so any format the
+ * loader supports can be converted. Converting the output back to the input
+ * format yields the same test cases. The OpenAI fine-tuning format only keeps
+ * the conversations, so titles, metadata and assertions are dropped.
+ *
+ * @param inputPath The test case file to read
+ * @param outputPath The file to write
+ * @param options The conversion options
+ * @returns Promise that resolves with the number of test cases and the format written
+ * @throws Error if the output format cannot be determined or the input cannot be loaded
+ */
+export async function convertFile(
+  inputPath: string,
+  outputPath: string,
+  options: ConvertOptions = {},
+): Promise<ConvertResult> {
+  const format = options.to ?? FORMATS_BY_EXTENSION[extname(outputPath)];
+  if (!format) {
+    throw new Error(
+      `Cannot infer the output format from ${outputPath}. Use one of: ${TEST_CASE_FORMATS.join(', ')}`,
+    );
+  }
+
+  const loader = new TestCaseLoader(dirname(inputPath));
+  const testCases = await loader.loadFile(inputPath);
+  await writeFile(outputPath, serializeTestCases(testCases, format), 'utf-8');
+
+  return { testCases: testCases.length, format };
+}
@@ -0,0 +1,267 @@
+import { stringify as stringifyYaml } from 'yaml';
+import {
+  ANY_TOOL_ARGS,
+  BaseMessage,
+  TestCase,
+} from '../core/types/message.types.js';
+import { roleMapper } from '../core/utils/role-mapper.js';
+import { formatAssertion } from '../scoring/utils/assertions.js';
+import { formatFrontMatter } from './text-formatter.js';
+
+/**
+ * Test case file formats that can be written
+ * - text: the native role-prefixed text format
+ * - jsonl: one test case record per line
+ * - yaml: a YAML test suite
+ * - openai: OpenAI fine-tuning chat JSONL (conversations and tool definitions)
+ */
+export type TestCaseFormat = 'text' | 'jsonl' | 'yaml' | 'openai';
+
+/**
+ * All writable formats, in the order they are listed to users
+ */
+export const TEST_CASE_FORMATS: readonly TestCaseFormat[] = [
+  'text',
+  'jsonl',
+  'yaml',
+  'openai',
+];
+
+/**
+ * Serializes test cases into the content of a file in the given format
+ * @param testCases The test cases to serialize
+ * @param format The format to write
+ * @returns The file content
+ * @throws Error if the format cannot hold a test case, such as inline tool definitions in text
+ */
+export function serializeTestCases(
+  testCases: TestCase[],
+  format: TestCaseFormat,
+): string {
+  switch (format) {
+    case 'text':
+      return `${testCases.map(toTextEntry).join('\n\n---\n\n')}\n`;
+    case 'jsonl':
+      return toJsonLines(testCases.map(toJsonRecord));
+    case 'yaml':
+      return stringifyYaml({ tests: testCases.map(toYamlTest) });
+    case 'openai':
+      return toJsonLines(
+        testCases.map((testCase) => ({
+          messages: toChatMessages(testCase.messageBlocks, false),
+          ...(testCase.tools && {
+            tools: testCase.tools.map((tool) => ({
+              type: 'function',
+              function: tool,
+            })),
+          }),
+        })),
+      );
+  }
+}
+
+/**
+ * Joins records into JSON Lines content
+ * @param records The records to write
+ * @returns One JSON document per line
+ */
+const toJsonLines = (records: object[]): string =>
+  records.map((record) => `${JSON.stringify(record)}\n`).join('');
+
+/**
+ * Gets the part of a test case ID that is not derived from its location
+ * @param testCase The test case
+ * @returns The local ID, or undefined when it equals the test case name
+ */
+const getLocalId = (testCase: TestCase): string | undefined => {
+  const localId = testCase.id.endsWith(`/${testCase.name}`)
+    ? testCase.name
+    : testCase.id.slice(testCase.id.lastIndexOf('/') + 1);
+  return localId === testCase.name ? undefined : localId;
+};
+
+/**
+ * Converts a test case into an entry of a text test case file
+ * @param testCase The test case to convert
+ * @returns The entry, with its title, front-matter, messages and `expect:` lines
+ * @throws Error if the test case declares tools inline, as text files can only reference a tools file
+ */
+const toTextEntry = (testCase: TestCase): string => {
+  if (testCase.tools && !testCase.metadata?.tools) {
+    throw new Error(
+      `Test case ${testCase.id} declares its tools inline, which the text format cannot hold. Move them into a tools file referenced with \`tools:\`, or convert to jsonl or yaml`,
+    );
+  }
+  return [
+    `# ${testCase.name}`,
+    ...formatFrontMatter(getLocalId(testCase), testCase.metadata ?? {}),
+    ...testCase.messageBlocks.flatMap(toTextMessage),
+    ...(testCase.assertions ?? []).map(
+      (assertion) => `expect: ${formatAssertion(assertion)}`,
+    ),
+  ].join('\n');
+};
+
+/**
+ * Converts a message block into the lines of a text test case file
+ * @param block The message block to convert
+ * @returns The lines of the message and its attachments, tool activity and alternatives
+ */
+const toTextMessage = (block: BaseMessage): string[] => [
+  ...toTextContent(block.role.replace(/_/g, ' '), block.content),
+  ...(block.attachments ?? []).map(({ path }) => `attachment: ${path}`),
+  ...(block.toolUsages ?? []).map(
+    (usage) => `tool use: ${usage.name} args: ${usage.args}`,
+  ),
+  ...(block.toolResponses ?? []).map(
+    (response) => `tool response: ${response.content}`,
+  ),
+  ...(block.alternatives ?? []).flatMap((alternative) =>
+    toTextContent('assistant (alt)', alternative),
+  ),
+];
+
+/**
+ * Writes message content after its role marker
+ *
+ * The parser reads a code block ahead of the content lines before it unless
+ * a blank line ends them, so a blank line is written before each code block
+ * that follows other content. Blank lines are not part of parsed content, so
+ * this does not change the message.
+ *
+ * @param role The role marker, without the colon
+ * @param content The message content
+ * @returns The lines of the message
+ */
+const toTextContent = (role: string, content: string): string[] => {
+  const lines: string[] = [];
+  let inCodeBlock = false;
+  for (const line of content.split('\n')) {
+    if (line.startsWith('```')) {
+      if (!inCodeBlock && lines.length > 0) {
+        lines.push('');
+      }
+      inCodeBlock = !inCodeBlock;
+    }
+    lines.push(line);
+  }
+  lines[0] = `${role}: ${lines[0]}`.trimEnd();
+  return lines;
+};
+
+/**
+ * Converts a test case into a JSONL record
+ * @param testCase The test case to convert
+ * @returns The record
+ */
+const toJsonRecord = (testCase: TestCase): object => ({
+  ...(getLocalId(testCase) && { id: getLocalId(testCase) }),
+  name: testCase.name,
+  ...(testCase.metadata && { metadata: testCase.metadata }),
+  messages: toChatMessages(testCase.messageBlocks, true),
+  ...(testCase.assertions && {
+    expect: testCase.assertions.map(formatAssertion),
+  }),
+  ...(testCase.tools && { tools: testCase.tools }),
+});
+
+/**
+ * Converts message blocks into chat messages with OpenAI tool calls
+ *
+ * Tool responses follow their assistant message as `tool` messages, linked
+ * to the tool calls by position.
+ *
+ * @param blocks The message blocks to convert
+ * @param keepExtensions Whether to keep fields OpenAI does not define, such as alternatives and attachments
+ * @returns The chat messages
+ */
+const toChatMessages = (
+  blocks: BaseMessage[],
+  keepExtensions: boolean,
+): object[] => {
+  let callCount = 0;
+
+  return blocks.flatMap((block) => {
+    const callIds = (block.toolUsages ?? []).map(() => `call_${++callCount}`);
+    const role = keepExtensions ? block.role : roleMapper.toOpenAI(block.role);
+    const message = {
+      role,
+      content: block.content,
+      ...(callIds.length > 0 && {
+        tool_calls: (block.toolUsages ?? []).map((usage, index) => ({
+          id: callIds[index],
+          type: 'function',
+          function: { name: usage.name, arguments: usage.args },
+        })),
+      }),
+      ...(keepExtensions &&
+        block.alternatives && { alternatives: block.alternatives }),
+      ...(keepExtensions &&
+        block.attachments && {
+          attachments: block.attachments.map(({ path }) => path),
+        }),
+    };
+    const toolMessages = (block.toolResponses ?? []).map((response, index) => ({
+      role: 'tool',
+      ...(callIds[index] && { tool_call_id: callIds[index] }),
+      content: response.content,
+    }));
+    return [message, ...toolMessages];
+  });
+};
+
+/**
+ * Converts a test case into a YAML test
+ * @param testCase The test case to convert
+ * @returns The YAML test object
+ */
+const toYamlTest = (testCase: TestCase): object => ({
+  ...(getLocalId(testCase) && { id: getLocalId(testCase) }),
+  name: testCase.name,
+  ...(testCase.metadata && { metadata: testCase.metadata }),
+  messages: testCase.messageBlocks.map(toYamlMessage),
+  ...(testCase.assertions && {
+    expect: testCase.assertions.map(formatAssertion),
+  }),
+  ...(testCase.tools && { tools: testCase.tools }),
+});
+
+/**
+ * Converts a message block into a YAML message, using the `{ role: content }`
+ * shorthand when the message has no tool activity, alternatives or attachments
+ * @param block The message block to convert
+ * @returns The YAML message object
+ */
+const toYamlMessage = (block: BaseMessage): object => {
+  const toolUses = block.toolUsages ?? [];
+  const toolResponses = block.toolResponses ?? [];
+  if (
+    toolUses.length === 0 &&
+    toolResponses.length === 0 &&
+    !block.alternatives &&
+    !block.attachments
+  ) {
+    return { [block.role]: block.content };
+  }
+
+  return {
+    role: block.role,
+    content: block.content,
+    ...(toolUses.length > 0 && {
+      tool_uses: toolUses.map((usage) => ({
+        name: usage.name,
+        args:
+          usage.args === ANY_TOOL_ARGS
+            ? usage.args
+            : (JSON.parse(usage.args) as unknown),
+      })),
+    }),
+    ...(toolResponses.length > 0 && {
+      tool_responses: toolResponses.map((response) => response.content),
+    }),
+    ...(block.alternatives && { alternatives: block.alternatives }),
+    ...(block.attachments && {
+      attachments: block.attachments.map(({ path }) => path),
+    }),
+  };
+};
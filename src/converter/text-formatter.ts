@@ -0,0 +1,397 @@
+import { readFile, stat, writeFile } from 'fs/promises';
+import { extname } from 'path';
+import { isDeepStrictEqual } from 'util';
+import { RoleRegistry } from '../core/utils/role-registry.js';
+import { FRONT_MATTER_KEYS, parseFrontMatter } from '../parser/front-matter.js';
+import {
+  INCLUDE_LINE,
+  LoaderOptions,
+  TEXT_EXTENSIONS,
+  TestCaseLoader,
+} from '../parser/loader.js';
+import { formatToolArgs, parseAssertion } from '../parser/parser.js';
+import { TestCaseParser } from '../parser/tokenizer.js';
+import { VariableRow } from '../parser/variables.js';
+import {
+  ANY_TOOL_ARGS,
+  TestCaseMetadata,
+} from '../core/types/message.types.js';
+import { formatAssertion } from '../scoring/utils/assertions.js';
+
+/**
+ * Pattern for a test case title line, as recognized by the parser
+ */
+const TITLE_LINE = /^#{1,2}\s*(.+)$/;
+
+/**
+ * Canonical output lines and the source lines they were formatted from
+ */
+interface FormattedItem {
+  /**
+   * The canonical lines
+   */
+  lines: string[];
+
+  /**
+   * The 1-based line of the chunk the item starts at
+   */
+  start: number;
+
+  /**
+   * The 1-based line of the chunk the item ends at
+   */
+  end: number;
+}
+
+/**
+ * Options for formatting test case files
+ */
+export interface FormatOptions extends LoaderOptions {
+  /**
+   * Only report whether the file is formatted, without rewriting it
+   */
+  check?: boolean;
+}
+
+/**
+ * Result of formatting a test case file
+ */
+export interface FormatResult {
+  /**
+   * The path of the formatted file
+   */
+  filePath: string;
+
+  /**
+   * Whether the canonical layout differs from the file content
+   */
+  changed: boolean;
+}
+
+/**
+ * Rewrites test case text in the canonical layout
+ *
+ * - titles use a single `#`, and test cases are separated by `---` lines
+ *   surrounded by blank lines
+ * - roles are written in lowercase followed by `: `, with aliases replaced
+ *   by the role they stand for
+ * - front-matter keys are written in a fixed order and variable tables
+ *   with aligned columns
+ * - tool arguments and `expect:` lines are written the way they are stored
+ * - trailing whitespace outside code blocks is removed and runs of blank
+ *   lines are collapsed into one
+ *
+ * Code blocks and `include:` directives are kept as written, so the text
+ * parses to the same test cases.
+ *
+ * @param text The test case text
+ * @param roles The role names that may start a message, including configured aliases
+ * @returns The canonical text
+ * @throws ParseError if the text cannot be parsed
+ */
+export function formatTestCaseText(
+  text: string,
+  roles: RoleRegistry = new RoleRegistry(),
+): string {
+  const tokenizer = new TestCaseParser(roles);
+  const chunks = text
+    .split(/^---$/m)
+    .filter((chunk) => chunk.trim())
+    .map((chunk) => formatChunk(chunk, tokenizer));
+  return `${chunks.join('\n\n---\n\n')}\n`;
+}
+
+/**
+ * Formats a test case file in place
+ *
+ * The formatted content must parse to the same test cases as the original,
+ * otherwise the file is left untouched.
+ *
+ * @param filePath The path of the text test case file
+ * @param options The formatting options
+ * @returns Promise that resolves with whether the file was (or, in check mode, would be) changed
+ * @throws Error if the file cannot be parsed or formatting would change its test cases
+ */
+export async function formatFile(
+  filePath: string,
+  options: FormatOptions = {},
+): Promise<FormatResult> {
+  const { check, ...loaderOptions } = options;
+  const content = await readFile(filePath, 'utf-8');
+  const formatted = formatTestCaseText(
+    content,
+    new RoleRegistry(loaderOptions.roleAliases),
+  );
+  if (formatted === content) {
+    return { filePath, changed: false };
+  }
+
+  const loader = new TestCaseLoader(process.cwd(), loaderOptions);
+  const ignoreWarning = (): void => {};
+  const [before, after] = [
+    await loader.parseFile(filePath, ignoreWarning, content),
+    await loader.parseFile(filePath, ignoreWarning, formatted),
+  ];
+  if (!isDeepStrictEqual(before, after)) {
+    throw new Error(
+      'Formatting would change the test cases of the file, so it was left unchanged',
+    );
+  }
+
+  if (!check) {
+    await writeFile(filePath, formatted, 'utf-8');
+  }
+  return { filePath, changed: true };
+}
+
+/**
+ * Finds the text test case files to format
+ *
+ * Directories are searched recursively, leaving out the files that other
+ * files include or reference. Files in other formats are skipped.
+ *
+ * @param paths The files and directories to format
+ * @param options The options for searching directories, such as `exclude`
+ * @returns Promise that resolves with the paths of the text test case files
+ * @throws Error if a path cannot be read
+ */
+export async function findTextFiles(
+  paths: string[],
+  options: LoaderOptions = {},
+): Promise<string[]> {
+  const loader = new TestCaseLoader(process.cwd(), options);
+  const files: string[] = [];
+  for (const path of paths) {
+    const found = (await stat(path)).isDirectory()
+      ? await loader.findTestFiles(path)
+      : [path];
+    files.push(...found.filter((file) => TEXT_EXTENSIONS.has(extname(file))));
+  }
+  return files;
+}
+
+/**
+ * Formats one test case of a file
+ * @param chunk The text of the test case between `---` separators
+ * @param tokenizer The tokenizer for message lines
+ * @returns The canonical text of the test case
+ */
+function formatChunk(chunk: string, tokenizer: TestCaseParser): string {
+  const lines = chunk.split('\n');
+  const items: FormattedItem[] = [];
+
+  // The parser takes the first title line wherever it is, so move it first
+  const titleIndex = lines.findIndex((line) => TITLE_LINE.test(line));
+  if (titleIndex !== -1) {
+    const [, title] = lines[titleIndex].match(TITLE_LINE) ?? [];
+    items.push(item([`# ${title.trim()}`], titleIndex + 1));
+    lines[titleIndex] = '';
+  }
+
+  // Include directives are kept in place, splitting the messages around them
+  let segmentStart = 0;
+  for (let index = 0; index <= lines.length; index++) {
+    const include =
+      index < lines.length ? lines[index].match(INCLUDE_LINE) : undefined;
+    if (index < lines.length && !include) {
+      continue;
+    }
+
+    // Front-matter can only precede the first directive
+    items.push(
+      ...formatSegment(
+        lines.slice(segmentStart, index),
+        segmentStart,
+        tokenizer,
+        segmentStart === 0,
+      ),
+    );
+    if (include) {
+      items.push(item([`include: ${include[1]}`.trimEnd()], index + 1));
+    }
+    segmentStart = index + 1;
+  }
+
+  // Keep a single blank line wherever the source separates items
+  const output: string[] = [];
+  let previousEnd: number | undefined;
+  for (const { lines: itemLines, start, end } of items) {
+    if (previousEnd !== undefined && start > previousEnd + 1) {
+      output.push('');
+    }
+    output.push(...itemLines);
+    previousEnd = Math.max(previousEnd ?? end, end);
+  }
+  return output.join('\n');
+}
+
+/**
+ * Formats the lines of a test case between `include:` directives
+ * @param lines The lines of the segment
+ * @param offset The number of chunk lines before the segment
+ * @param tokenizer The tokenizer for message lines
+ * @param withFrontMatter Whether the segment may start with front-matter
+ * @returns The formatted items of the segment
+ */
+function formatSegment(
+  lines: string[],
+  offset: number,
+  tokenizer: TestCaseParser,
+  withFrontMatter: boolean,
+): FormattedItem[] {
+  const items: FormattedItem[] = [];
+  let bodyOffset = 0;
+
+  if (withFrontMatter) {
+    const frontMatter = parseFrontMatter(lines.join('\n'));
+    const frontMatterLines = [
+      ...formatFrontMatter(frontMatter.id, frontMatter.metadata),
+      ...formatVariableTable(frontMatter.variables ?? []),
+    ];
+    bodyOffset = frontMatter.bodyOffset;
+    const blockLines = lines
+      .slice(0, bodyOffset)
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => line.trim());
+    if (frontMatterLines.length > 0 && blockLines.length > 0) {
+      items.push({
+        lines: frontMatterLines,
+        start: offset + blockLines[0].index + 1,
+        end: offset + blockLines[blockLines.length - 1].index + 1,
+      });
+    }
+  }
+
+  const { elements, positions } = tokenizer.tokenizeWithPositions(
+    lines.slice(bodyOffset).join('\n'),
+    offset + bodyOffset,
+  );
+  for (let index = 0; index < elements.length; index++) {
+    const { type, value } = elements[index];
+    const { line } = positions[index];
+    switch (type) {
+      case 'role':
+      case 'alternative': {
+        // Role lines are followed by the content written on the same line
+        const role =
+          type === 'alternative' ? 'assistant (alt)' : value.replace(/_/g, ' ');
+        const content = elements[index + 1]?.value ?? '';
+        index++;
+        items.push(item([`${role}: ${content}`.trimEnd()], line));
+        break;
+      }
+      case 'content':
+        items.push(item(value.split('\n'), line));
+        break;
+      case 'tool_use':
+        items.push(item([`tool use: ${formatToolUse(value)}`], line));
+        break;
+      case 'tool_response':
+        items.push(item([`tool response: ${value}`.trimEnd()], line));
+        break;
+      case 'args':
+        items.push(item([`args: ${value}`.trimEnd()], line));
+        break;
+      case 'expect':
+        items.push(item([`expect: ${formatExpectation(value)}`], line));
+        break;
+      case 'attachment':
+        items.push(item([`attachment: ${value}`.trimEnd()], line));
+        break;
+    }
+  }
+  return items;
+}
+
+/**
+ * Creates an item for lines that start at a source line
+ * @param lines The canonical lines
+ * @param start The 1-based source line of the first line
+ * @returns The item
+ */
+const item = (lines: string[], start: number): FormattedItem => ({
+  lines,
+  start,
+  end: start + lines.length - 1,
+});
+
+/**
+ * Formats front-matter values as `key: value` lines in schema order
+ * @param id The explicit ID of the test case, if any
+ * @param metadata The metadata declared in the block
+ * @returns The front-matter lines
+ */
+export function formatFrontMatter(
+  id: string | undefined,
+  metadata: TestCaseMetadata,
+): string[] {
+  const values: Record<string, unknown> = { id, ...metadata };
+  return [...FRONT_MATTER_KEYS]
+    .filter((key) => values[key] !== undefined)
+    .map((key) => {
+      const value = values[key];
+      return `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`;
+    });
+}
+
+/**
+ * Formats variable rows as a Markdown table with aligned columns
+ * @param rows The rows of the table
+ * @returns The table lines, empty if there are no rows
+ */
+function formatVariableTable(rows: VariableRow[]): string[] {
+  if (rows.length === 0) {
+    return [];
+  }
+  const columns = Object.keys(rows[0]);
+  const cells = [columns, ...rows.map((row) => columns.map((c) => row[c]))].map(
+    (row) => row.map((cell) => cell.replace(/\|/g, '\\|')),
+  );
+  const widths = columns.map((_, column) =>
+    Math.max(...cells.map((row) => row[column].length)),
+  );
+  const formatRow = (row: string[]): string =>
+    `| ${row.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+  return [
+    formatRow(cells[0]),
+    `|${widths.map((width) => '-'.repeat(width + 2)).join('|')}|`,
+    ...cells.slice(1).map(formatRow),
+  ];
+}
+
+/**
+ * Formats the value of a `tool use:` line with its arguments as stored
+ * @param value The text following `tool use:`
+ * @returns The canonical value, or the value as written if it is invalid
+ */
+function formatToolUse(value: string): string {
+  const match = value.match(/^(.*?)\s*args:\s*(.*)$/i);
+  if (!match) {
+    return value;
+  }
+  if (match[2].trim() === ANY_TOOL_ARGS) {
+    return `${match[1].trim()} args: ${ANY_TOOL_ARGS}`;
+  }
+  try {
+    const args = JSON.parse(match[2]) as unknown;
+    if (typeof args !== 'object' || args === null) {
+      return value;
+    }
+    return `${match[1].trim()} args: ${formatToolArgs(args as Record<string, unknown>)}`;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Formats the value of an `expect:` line the way assertions are shown
+ * @param value The text following `expect:`
+ * @returns The canonical value, or the value as written if it is invalid
+ */
+function formatExpectation(value: string): string {
+  try {
+    return formatAssertion(parseAssertion(value));
+  } catch {
+    return value;
+  }
+}
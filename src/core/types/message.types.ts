@@ -37,18 +37,39 @@ export enum MessageRole {
   DEVELOPER = 'developer',
 }
 
+/**
+ * Tool usage arguments, written `args: *`, that stand for any arguments
+ */
+export const ANY_TOOL_ARGS = '*';
+
 /**
  * Base tool usage type
  */
 export interface ToolUsage {
+  /**
+   * ID the provider assigned to the call, used to link it to its response
+   */
+  id?: string;
   name: string;
   /**
-   * Arguments for the tool as a JSON string
+   * Arguments for the tool as a JSON string, or `ANY_TOOL_ARGS` for any
    * Example: "{\"operation\": \"add\", \"numbers\": [2, 2]}"
    */
   args: string;
 }
 
+/**
+ * Definition of a tool the agent may call, declared in test case files
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  /**
+   * JSON schema of the tool arguments
+   */
+  parameters?: Record<string, unknown>;
+}
+
 /**
  * Base tool response type
  */
@@ -56,6 +77,41 @@ export interface ToolResponse {
   content: string;
 }
 
+/**
+ * Text content of a message
+ */
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * File attached to a message with an `attachment:` line
+ * - image: sent to the agent as an image the model can see
+ * - file: sent to the agent as a document, such as a PDF
+ */
+export interface AttachmentContentPart {
+  type: 'image' | 'file';
+  /**
+   * Path of the file as written in the test case, relative to the test case
+   * file
+   */
+  path: string;
+  /**
+   * MIME type derived from the file extension
+   */
+  mimeType: string;
+  /**
+   * Base64-encoded file content, filled in by the loader
+   */
+  data?: string;
+}
+
+/**
+ * A typed part of the content sent for a message
+ */
+export type ContentPart = TextContentPart | AttachmentContentPart;
+
 /**
  * Base message interface that can be extended
  */
@@ -64,6 +120,101 @@ export interface BaseMessage {
   content: string;
   toolUsages?: ToolUsage[];
   toolResponses?: ToolResponse[];
+  /**
+   * Other acceptable contents for an assistant message, declared with
+   * `assistant (alt):` blocks and used as additional scoring references
+   */
+  alternatives?: string[];
+  /**
+   * Files sent along with the message content, in the order they are declared
+   */
+  attachments?: AttachmentContentPart[];
+}
+
+/**
+ * Metadata attached to a test case through its front-matter block
+ */
+export interface TestCaseMetadata {
+  /** Free-form labels used to group and select test cases */
+  tags?: string[];
+
+  /** Person or team responsible for the test case */
+  owner?: string;
+
+  /** Minimum similarity score (0-1) required for the test case to pass */
+  threshold?: number;
+
+  /**
+   * How the response is scored: by `similarity` to the recorded message (the
+   * default) or by its `tool-calls` alone
+   */
+  scorer?: 'similarity' | 'tool-calls';
+
+  /** Maximum time in milliseconds allowed for the agent to respond */
+  timeout?: number;
+
+  /** Human-readable description of what the test case checks */
+  description?: string;
+
+  /**
+   * Path to a CSV or JSON file of values for `{{variable}}` placeholders,
+   * relative to the test case file
+   */
+  data?: string;
+
+  /**
+   * How tool call arguments are compared with the recorded ones: `exact`
+   * equality (the default) or a `subset` of the recorded arguments
+   */
+  toolArgs?: 'exact' | 'subset';
+
+  /**
+   * Whether tool calls must follow the `strict` recorded order (the default)
+   * or may come in `any` order
+   */
+  toolOrder?: 'strict' | 'any';
+
+  /**
+   * Path to a JSON or YAML file of tool definitions sent to the agent,
+   * relative to the file that declares it
+   */
+  tools?: string;
+
+  /** Whether the test case is reported as skipped instead of being run */
+  skip?: boolean;
+
+  /** Whether the run is restricted to the test cases marked `only` */
+  only?: boolean;
+
+  /**
+   * Whether the test case is expected to fail, so that a failure is reported
+   * as expected and a pass as unexpected
+   */
+  xfail?: boolean;
+}
+
+/**
+ * Deterministic checks that can be declared with `expect:` lines
+ * - contains: the response includes the value
+ * - not-contains: the response does not include the value
+ * - regex: the response matches the regular expression
+ * - equals: the response is exactly the value (ignoring surrounding whitespace)
+ */
+export type AssertionType = 'contains' | 'not-contains' | 'regex' | 'equals';
+
+/**
+ * Assertion evaluated against the agent response
+ */
+export interface Assertion {
+  type: AssertionType;
+  /**
+   * The expected text, or the regular expression source for `regex`
+   */
+  value: string;
+  /**
+   * Regular expression flags, only used for `regex`
+   */
+  flags?: string;
 }
 
 /**
@@ -73,4 +224,10 @@ export interface TestCase {
   id: string;
   name: string;
   messageBlocks: BaseMessage[];
+  metadata?: TestCaseMetadata;
+  assertions?: Assertion[];
+  /**
+   * Tools the agent may call while responding
+   */
+  tools?: ToolDefinition[];
 }
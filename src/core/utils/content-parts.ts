@@ -0,0 +1,70 @@
+import { extname } from 'path';
+import {
+  AttachmentContentPart,
+  BaseMessage,
+  ContentPart,
+  MessageRole,
+} from '../types/message.types.js';
+
+/**
+ * MIME types of the attachment extensions sent as images
+ */
+const IMAGE_TYPES: Readonly<Record<string, string>> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/**
+ * MIME types of the attachment extensions sent as files
+ */
+const FILE_TYPES: Readonly<Record<string, string>> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+};
+
+/**
+ * Roles whose messages may carry attachments
+ */
+export const ATTACHMENT_ROLES: ReadonlySet<MessageRole> = new Set([
+  MessageRole.USER,
+  MessageRole.DEVELOPER,
+]);
+
+/**
+ * Creates an attachment for a file, typed by its extension
+ * @param path The path of the file as written in the test case
+ * @returns The attachment, without its content
+ */
+export function createAttachment(path: string): AttachmentContentPart {
+  const extension = extname(path).toLowerCase();
+  const imageType = IMAGE_TYPES[extension];
+  if (imageType) {
+    return { type: 'image', path, mimeType: imageType };
+  }
+  return {
+    type: 'file',
+    path,
+    mimeType: FILE_TYPES[extension] ?? 'application/octet-stream',
+  };
+}
+
+/**
+ * Gets the typed content parts of a message: its text, if any, followed by
+ * its attachments
+ * @param message The message
+ * @returns The content parts, in the order they are sent
+ */
+export function getContentParts(message: BaseMessage): ContentPart[] {
+  return [
+    ...(message.content
+      ? [{ type: 'text' as const, text: message.content }]
+      : []),
+    ...(message.attachments ?? []),
+  ];
+}
@@ -31,6 +31,7 @@ export class RoleMapper {
 
   /**
    * Maps an OpenAI role to our role system
+   * @throws Error if the role is not recognized
    */
   public toRole(role: string): MessageRole {
     switch (role.toLowerCase()) {
@@ -40,13 +41,13 @@ export class RoleMapper {
         return MessageRole.ASSISTANT;
       case 'system':
         return MessageRole.SYSTEM;
+      case 'tool':
       case 'function':
         return MessageRole.TOOL;
       case 'developer':
         return MessageRole.DEVELOPER;
       default:
-        console.warn(`Unrecognized role: ${role}, defaulting to USER`);
-        return MessageRole.USER;
+        throw new Error(`Unrecognized role: ${role}`);
     }
   }
 }
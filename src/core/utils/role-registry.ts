@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { MessageRole } from '../types/message.types.js';
+import { FRONT_MATTER_KEYS } from '../../parser/front-matter.js';
+
+/**
+ * Schema for user-defined role aliases, mapping a role name used in test case
+ * files to the role it stands for
+ *
+ * @example
+ * { "customer": "user", "bot": "assistant" }
+ */
+export const RoleAliasesSchema = z.record(z.string().min(1));
+
+export type RoleAliases = z.infer<typeof RoleAliasesSchema>;
+
+/**
+ * Role names understood in test case files without configuration
+ */
+const BUILT_IN_ROLES: ReadonlyArray<[string, MessageRole]> = [
+  ['user', MessageRole.USER],
+  ['assistant', MessageRole.ASSISTANT],
+  ['human agent', MessageRole.HUMAN_AGENT],
+  ['system', MessageRole.SYSTEM],
+  ['developer', MessageRole.DEVELOPER],
+];
+
+/**
+ * Line markers and front-matter keys of the text format, which cannot be
+ * used as role names
+ */
+const RESERVED_NAMES: ReadonlySet<string> = new Set([
+  'tool use',
+  'tool response',
+  'args',
+  'expect',
+  'attachment',
+  'include',
+  ...Array.from(FRONT_MATTER_KEYS, (key) => key.toLowerCase()),
+]);
+
+/**
+ * Pattern for a valid normalized role name: one or more words
+ */
+const ROLE_NAME = /^[a-z][\w-]*( [a-z][\w-]*)*$/;
+
+/**
+ * Normalizes a role name so that case, underscores and repeated spaces do
+ * not matter (`Human_Agent` and `human  agent` both become `human agent`)
+ * @param name The role name as written
+ * @returns The normalized role name
+ */
+export function normalizeRoleName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, ' ');
+}
+
+/**
+ * Registry of the role names that may start a message in a test case file
+ *
+ * Holds the built-in roles, which may span several words (`human agent`),
+ * and any aliases configured by the user.
+ */
+export class RoleRegistry {
+  private readonly roles = new Map<string, MessageRole>(BUILT_IN_ROLES);
+
+  /**
+   * @param aliases Additional role names and the roles they stand for
+   * @throws Error if an alias is invalid or refers to an unknown role
+   */
+  constructor(aliases: RoleAliases = {}) {
+    for (const [alias, target] of Object.entries(aliases)) {
+      this.addAlias(alias, target);
+    }
+  }
+
+  /**
+   * Registers an additional name for a role
+   * @param alias The name to use in test case files
+   * @param target The role, or another registered name, the alias stands for
+   * @throws Error if the alias is not a valid name, replaces a built-in or reserved name, or the target is unknown
+   */
+  public addAlias(alias: string, target: string): void {
+    const name = normalizeRoleName(alias);
+    if (!ROLE_NAME.test(name)) {
+      throw new Error(
+        `Invalid role alias "${alias}": role names must be words of letters, digits, "-" or "_"`,
+      );
+    }
+    if (RESERVED_NAMES.has(name) || BUILT_IN_ROLES.some(([n]) => n === name)) {
+      throw new Error(`Role alias "${alias}" is a reserved name`);
+    }
+
+    const role = this.resolve(target);
+    if (!role) {
+      throw new Error(
+        `Role alias "${alias}" refers to unknown role "${target}". Valid roles are: ${this.names.join(', ')}`,
+      );
+    }
+    this.roles.set(name, role);
+  }
+
+  /**
+   * Gets the role a name stands for
+   * @param name The role name as written in a test case file
+   * @returns The role, or undefined if the name is not registered
+   */
+  public resolve(name: string): MessageRole | undefined {
+    return this.roles.get(normalizeRoleName(name));
+  }
+
+  /**
+   * The registered role names, built-in roles first
+   */
+  public get names(): string[] {
+    return Array.from(this.roles.keys());
+  }
+}
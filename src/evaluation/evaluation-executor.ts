@@ -2,16 +2,46 @@ import { AgentInput } from '../agents/types/agent.types.js';
 import { IAgent } from '../agents/interfaces/agent.interface.js';
 import { Logger } from '../utils/logger.js';
 import { performance } from 'perf_hooks';
-import { TestCase } from '../core/types/message.types.js';
-import { TestCaseLoader } from '../parser/loader.js';
-import { ScoringService } from '../scoring/scoring.service.js';
+import {
+  BaseMessage,
+  MessageRole,
+  TestCase,
+  ToolUsage,
+} from '../core/types/message.types.js';
+import { MockToolRegistry } from '../agents/tools/mock-tool-registry.js';
+import { DEFAULT_MAX_TOOL_STEPS, ToolLoop } from '../agents/tools/tool-loop.js';
+import {
+  formatLoadError,
+  LoadResult,
+  TestCaseLoader,
+} from '../parser/loader.js';
+import {
+  ReferenceAggregation,
+  ScoringService,
+} from '../scoring/scoring.service.js';
 import { ReportGenerator } from '../report/report-generator.js';
 import {
   EvaluationConfig,
   EvaluationReport,
 } from './types/evaluation.types.js';
-import { TestCaseEvaluation } from './types/test-case.types.js';
+import {
+  MarkedOutcome,
+  TestCaseEvaluation,
+  TurnEvaluation,
+} from './types/test-case.types.js';
 import { formatTestCasePlain } from '../utils/formatter.js';
+import { filterTestCases } from './test-case-filter.js';
+import {
+  evaluateAssertions,
+  formatAssertion,
+} from '../scoring/utils/assertions.js';
+import {
+  evaluateToolCalls,
+  formatToolCallResult,
+  scoreToolCalls,
+  TOOL_CALL_SCORER,
+  ToolCallResult,
+} from '../scoring/utils/tool-calls.js';
 
 /**
  * Service for executing test cases against an agent
@@ -22,13 +52,26 @@ export class EvaluationExecutor {
   private reportGenerator: ReportGenerator;
   private readonly threshold: number;
   private readonly maxConcurrency: number;
+  private readonly filter: EvaluationConfig['filter'];
+  private readonly referenceAggregation: ReferenceAggregation;
+  private readonly turnByTurn: boolean;
+  private readonly maxToolSteps: number;
 
   constructor(scoringService: ScoringService, config: EvaluationConfig) {
-    this.testCaseLoader = new TestCaseLoader();
+    this.testCaseLoader = new TestCaseLoader(process.cwd(), {
+      csvColumns: config.csvColumns,
+      roleAliases: config.roleAliases,
+      include: config.include,
+      exclude: config.exclude,
+    });
     this.scoringService = scoringService;
     this.reportGenerator = new ReportGenerator(config);
     this.threshold = config.threshold ?? 0.8;
     this.maxConcurrency = config.maxConcurrency ?? 5;
+    this.filter = config.filter;
+    this.referenceAggregation = config.referenceAggregation ?? 'best';
+    this.turnByTurn = config.turnByTurn ?? false;
+    this.maxToolSteps = config.maxToolSteps ?? DEFAULT_MAX_TOOL_STEPS;
   }
 
   /**
@@ -44,34 +87,91 @@ export class EvaluationExecutor {
     stopOnError: boolean = true,
   ): Promise<EvaluationReport> {
     const startTime = performance.now();
-
-    // First load the test cases
     const loadResult = await this.testCaseLoader.loadFromDirectory(
       directoryPath,
       stopOnError,
     );
+    return this.evaluateLoaded(agent, loadResult, startTime);
+  }
+
+  /**
+   * Loads and executes test cases from directories and individual files and
+   * generates a report
+   * @param agent The agent to test
+   * @param paths The paths of the directories and files containing test cases
+   * @param stopOnError Whether to stop processing files after the first error (default: true)
+   * @returns Promise that resolves with the evaluation report
+   */
+  public async evaluateFromPaths(
+    agent: IAgent,
+    paths: string[],
+    stopOnError: boolean = true,
+  ): Promise<EvaluationReport> {
+    const startTime = performance.now();
+    const loadResult = await this.testCaseLoader.loadFromPaths(
+      paths,
+      stopOnError,
+    );
+    return this.evaluateLoaded(agent, loadResult, startTime);
+  }
+
+  /**
+   * Executes loaded test cases and generates a report
+   * @param agent The agent to test
+   * @param loadResult The result of loading the test cases
+   * @param startTime The time loading started, for the reported duration
+   * @returns Promise that resolves with the evaluation report
+   */
+  private async evaluateLoaded(
+    agent: IAgent,
+    loadResult: LoadResult,
+    startTime: number,
+  ): Promise<EvaluationReport> {
+    this.reportLoadErrors(loadResult);
+
+    // Keep only the test cases selected by the filter
+    const { selected, filteredOut } = filterTestCases(
+      loadResult.testCases,
+      this.filter,
+    );
 
     // Then execute them in parallel
     const results = await this.executeTestCasesInParallel(
       agent,
-      loadResult.testCases,
+      selected,
       this.maxConcurrency,
     );
 
     const duration = (performance.now() - startTime) / 1000; // Convert to seconds
 
-    const passedTests = results.filter((r) => r.success).length;
+    // Skipped and xfail test cases are counted apart from passes and failures
+    const counted = results.filter((r) => !r.outcome);
+    const countOutcome = (outcome: MarkedOutcome): number =>
+      results.filter((r) => r.outcome === outcome).length;
+    const passedTests = counted.filter((r) => r.success).length;
     const totalTests = results.length;
-    const failedTests = totalTests - passedTests;
-    const passRate = totalTests > 0 ? passedTests / totalTests : 0;
+    const failedTests = counted.length - passedTests;
+    const skippedTests = countOutcome('skipped');
+    const expectedFailures = countOutcome('expected failure');
+    const unexpectedPasses = countOutcome('unexpected pass');
+    const passRate = counted.length > 0 ? passedTests / counted.length : 0;
 
     // Log test summary using the new format
-    Logger.testSummary(totalTests, passedTests, failedTests, duration);
+    Logger.testSummary(totalTests, passedTests, failedTests, duration, {
+      filtered: filteredOut,
+      skipped: skippedTests,
+      expectedFailures,
+      unexpectedPasses,
+    });
 
     const report: EvaluationReport = {
       totalTests,
       passedTests,
       failedTests,
+      filteredTests: filteredOut,
+      skippedTests,
+      expectedFailures,
+      unexpectedPasses,
       passRate,
       results: results.map((result) => ({
         testCase: {
@@ -92,7 +192,18 @@ export class EvaluationExecutor {
           }),
         },
         score: result.score,
+        threshold: result.threshold,
+        matchedReference: result.matchedReference,
+        assertions: result.assertions,
+        toolCalls: result.toolCalls,
+        turns: result.turns?.map(({ turn, score, passed, response }) => ({
+          turn,
+          score,
+          passed,
+          response,
+        })),
         passed: result.success,
+        outcome: result.outcome,
         error: result.error,
         timestamp: new Date(),
         response: result.response || '',
@@ -104,6 +215,29 @@ export class EvaluationExecutor {
     return report;
   }
 
+  /**
+   * Logs the errors and warnings encountered while loading test cases, each
+   * with the offending file, line and column
+   * @param loadResult The result of loading the test cases
+   */
+  private reportLoadErrors(loadResult: LoadResult): void {
+    if (loadResult.warnings.length > 0) {
+      Logger.warn(
+        `Found ${loadResult.warnings.length} warnings while loading test cases:\n${loadResult.warnings
+          .map(formatLoadError)
+          .join('\n')}`,
+      );
+    }
+    if (loadResult.errors.length === 0) {
+      return;
+    }
+    Logger.warn(
+      `Encountered ${loadResult.errors.length} errors while loading test cases:\n${loadResult.errors
+        .map(formatLoadError)
+        .join('\n')}`,
+    );
+  }
+
   /**
    * Loads and executes test cases from a directory
    * @param agent The agent to test
@@ -122,14 +256,7 @@ export class EvaluationExecutor {
       stopOnError,
     );
 
-    if (loadResult.errors.length > 0) {
-      Logger.warn(
-        `Encountered ${loadResult.errors.length} errors while loading test cases:`,
-        {
-          errors: loadResult.errors,
-        },
-      );
-    }
+    this.reportLoadErrors(loadResult);
 
     if (loadResult.testCases.length === 0) {
       Logger.warn('No test cases were loaded successfully');
@@ -139,7 +266,14 @@ export class EvaluationExecutor {
     Logger.info(
       `Successfully loaded ${loadResult.testCases.length} test cases`,
     );
-    return this.executeTestCases(agent, loadResult.testCases);
+    const { selected, filteredOut } = filterTestCases(
+      loadResult.testCases,
+      this.filter,
+    );
+    if (filteredOut > 0) {
+      Logger.info(`Filtered out ${filteredOut} test cases`);
+    }
+    return this.executeTestCases(agent, selected);
   }
 
   /**
@@ -158,6 +292,22 @@ export class EvaluationExecutor {
       `Executing test case ${testCase.id} with provider: ${agentConfig.provider}`,
     );
 
+    if (testCase.metadata?.skip) {
+      Logger.testResult(testCase.id, false, {
+        outcome: 'skipped',
+        threshold: this.getThreshold(testCase),
+      });
+      return {
+        testCaseId: testCase.id,
+        success: false,
+        outcome: 'skipped',
+        score: 0,
+        threshold: this.getThreshold(testCase),
+        executionTime: 0,
+        testCase,
+      };
+    }
+
     try {
       if (testCase.messageBlocks.length < 2) {
         throw new Error(
@@ -165,46 +315,121 @@ export class EvaluationExecutor {
         );
       }
 
-      // Get input messages based on provider
-      let inputMessages;
-      // Send all messages except the last one (expected response) for both providers
-      inputMessages = testCase.messageBlocks.slice(0, -1);
+      if (
+        testCase.metadata?.scorer === TOOL_CALL_SCORER &&
+        !(agent.supportsTools?.() ?? false)
+      ) {
+        throw new Error(
+          `The ${agentConfig.provider} agent cannot make tool calls, which the tool-calls scorer requires`,
+        );
+      }
+
+      const threshold = this.getThreshold(testCase);
+      const turnIndices = this.turnByTurn
+        ? getAssistantTurns(testCase.messageBlocks)
+        : [testCase.messageBlocks.length - 1];
       Logger.debug(
-        `Using message format: sending ${inputMessages.length} messages of conversation history`,
+        `Evaluating ${turnIndices.length} turn(s) of test case ${testCase.id}`,
       );
 
-      // Get the expected response from the last message block
-      const expectedResponse =
-        testCase.messageBlocks[testCase.messageBlocks.length - 1];
-
-      const input: AgentInput = {
-        messages: inputMessages,
-      };
-
-      // Execute the test
-      Logger.debug(`Sending input to ${agentConfig.provider} agent`);
-      const response = await agent.sendInput(input);
-      const executionTime = performance.now() - startTime;
-
-      // Only calculate similarity score if we have a valid response
-      if (!response.response || response.response.trim().length === 0) {
-        throw new Error('Agent returned an empty response');
+      // Send the ground-truth history before each evaluated turn and score
+      // the reply against the recorded message
+      const turns: TurnEvaluation[] = [];
+      let content = '';
+      for (const [turnIndex, messageIndex] of turnIndices.entries()) {
+        // With mock tools the agent makes the recorded tool calls itself, so
+        // they are expected from it rather than sent as history
+        const start = usesMockTools(agent, testCase)
+          ? getToolStepsStart(testCase.messageBlocks, messageIndex)
+          : messageIndex;
+        const { content: turnContent, ...turn } = await this.evaluateTurn(
+          agent,
+          testCase.messageBlocks.slice(0, start),
+          testCase.messageBlocks[messageIndex],
+          testCase,
+          testCase.messageBlocks
+            .slice(start, messageIndex + 1)
+            .flatMap((block) => block.toolUsages ?? []),
+        );
+        content = turnContent;
+        turns.push({
+          turn: turnIndex + 1,
+          messageIndex,
+          ...turn,
+          passed: turn.score >= threshold,
+        });
       }
+      const executionTime = performance.now() - startTime;
 
-      // Calculate semantic similarity score
-      Logger.debug('Calculating similarity score');
-      const score = await this.scoringService.scoreStrings(
-        response.response.trim(),
-        expectedResponse.content.trim(),
+      // The final turn provides the response; the score is the mean over turns
+      const { response, matchedReference } = turns[turns.length - 1];
+      const score =
+        turns.reduce((total, turn) => total + turn.score, 0) / turns.length;
+      // With the tool-call scorer the score only reflects the tool calls,
+      // whose failures are reported on their own
+      const failedTurns =
+        testCase.metadata?.scorer === TOOL_CALL_SCORER
+          ? []
+          : turns.filter((turn) => !turn.passed);
+
+      // Evaluate the deterministic assertions declared with `expect:` lines
+      // against the final reply as the agent sent it
+      const assertions = evaluateAssertions(
+        content.trim(),
+        testCase.assertions ?? [],
       );
-
-      // Consider it a success if score is above threshold (0.8 by default)
-      const isMatch = score >= this.threshold;
+      const failedAssertions = assertions.filter((result) => !result.passed);
+
+      // Check the tool calls recorded on the evaluated assistant messages
+      const toolCalls = turns.flatMap((turn) => turn.toolCalls ?? []);
+      const failedToolCalls = toolCalls.filter((result) => !result.passed);
+
+      // Consider it a success if every turn scores above the effective
+      // threshold, every assertion holds and every expected tool call is made
+      const failures: string[] = [];
+      if (this.turnByTurn && failedTurns.length > 0) {
+        failures.push(
+          `Response mismatch in turn(s) ${failedTurns.map((turn) => turn.turn).join(', ')}`,
+        );
+      } else if (failedTurns.length > 0) {
+        failures.push('Response mismatch');
+      }
+      if (failedAssertions.length > 0) {
+        failures.push(
+          `Failed assertions: ${failedAssertions.map(formatAssertion).join(', ')}`,
+        );
+      }
+      if (failedToolCalls.length > 0) {
+        failures.push(
+          `Failed tool calls: ${failedToolCalls.map(formatToolCallResult).join(', ')}`,
+        );
+      }
+      const isMatch = failures.length === 0;
+      const error = isMatch ? undefined : failures.join('; ');
+      const outcome = getXfailOutcome(testCase, isMatch);
 
       // Log test result using the new format
       Logger.testResult(testCase.id, isMatch, {
-        error: isMatch ? undefined : 'Response mismatch',
+        outcome,
+        error,
         score,
+        threshold,
+        matchedReference,
+        assertions: assertions.map((result) => ({
+          description: formatAssertion(result),
+          passed: result.passed,
+        })),
+        toolCalls: toolCalls.map((result) => ({
+          description: formatToolCallResult(result),
+          passed: result.passed,
+        })),
+        ...(this.turnByTurn && {
+          turns: turns.map(({ turn, score, passed }) => ({
+            turn,
+            score,
+            passed,
+          })),
+        }),
         executionTime,
         testCase: {
           input: formatTestCasePlain({
@@ -220,25 +445,34 @@ export class EvaluationExecutor {
             ],
           }),
         },
-        response: response.response,
+        response,
       });
 
       return {
         testCaseId: testCase.id,
         success: isMatch,
-        error: isMatch ? undefined : 'Response mismatch',
+        ...(outcome && { outcome }),
+        error,
         score,
+        threshold,
+        matchedReference,
+        ...(assertions.length > 0 && { assertions }),
+        ...(toolCalls.length > 0 && { toolCalls }),
+        ...(this.turnByTurn && { turns }),
         executionTime,
-        response: response.response,
+        response,
         testCase,
       };
     } catch (error) {
       const executionTime = performance.now() - startTime;
+      const outcome = getXfailOutcome(testCase, false);
 
       // Log test result using the new format
       Logger.testResult(testCase.id, false, {
+        outcome,
         error: error instanceof Error ? error.message : 'Unknown error',
         score: 0,
+        threshold: this.getThreshold(testCase),
         executionTime,
         testCase: {
           input: formatTestCasePlain({
@@ -260,8 +494,10 @@ export class EvaluationExecutor {
       return {
         testCaseId: testCase.id,
         success: false,
+        ...(outcome && { outcome }),
         error: error instanceof Error ? error.message : 'Unknown error',
         score: 0,
+        threshold: this.getThreshold(testCase),
         executionTime,
         response: error instanceof Error ? error.message : 'Unknown error',
         testCase,
@@ -269,6 +505,144 @@ export class EvaluationExecutor {
     }
   }
 
+  /**
+   * Sends a conversation history to the agent and scores its reply
+   *
+   * When the test case declares tools and the agent can make tool calls, the
+   * agent runs a tool loop in which its calls are answered with the tool
+   * responses recorded in the test case. The expected tool calls are checked
+   * against the calls the agent made when it runs the tool loop or the test
+   * case uses the `tool-calls` scorer, where those checks replace the
+   * similarity score.
+   *
+   * @param agent The agent to test
+   * @param history The messages sent as input
+   * @param expected The recorded message the reply is compared to
+   * @param testCase The test case, for its tools and scoring metadata
+   * @param expectedCalls The tool calls the agent is expected to make
+   * @returns Promise that resolves with the reply, its text as sent by the agent, its score, the matched reference index and the tool call results
+   * @throws Error if the agent returns an empty response or exceeds the timeout of the test case
+   */
+  private async evaluateTurn(
+    agent: IAgent,
+    history: BaseMessage[],
+    expected: BaseMessage,
+    testCase: TestCase,
+    expectedCalls: ToolUsage[] = expected.toolUsages ?? [],
+  ): Promise<{
+    response: string;
+    content: string;
+    score: number;
+    matchedReference: number;
+    toolCalls?: ToolCallResult[];
+  }> {
+    const mockTools = usesMockTools(agent, testCase);
+    const input: AgentInput = {
+      messages: history,
+      ...(mockTools && { tools: testCase.tools }),
+    };
+
+    Logger.debug(
+      `Sending ${history.length} messages of conversation history to ${agent.getConfig().provider} agent`,
+    );
+    const output = await withTimeout(
+      (signal) =>
+        mockTools
+          ? new ToolLoop(
+              agent,
+              MockToolRegistry.fromMessages(testCase.messageBlocks),
+              this.maxToolSteps,
+            ).sendInput({ ...input, signal })
+          : agent.sendInput({ ...input, signal }),
+      testCase.metadata?.timeout,
+    );
+
+    const scoresToolCalls = testCase.metadata?.scorer === TOOL_CALL_SCORER;
+    const toolCalls =
+      expectedCalls.length > 0 && (mockTools || scoresToolCalls)
+        ? evaluateToolCalls(output.toolCalls ?? [], expectedCalls, {
+            args: testCase.metadata?.toolArgs,
+            order: testCase.metadata?.toolOrder,
+          })
+        : undefined;
+    if (scoresToolCalls) {
+      return {
+        response: output.response,
+        content: output.content ?? output.response,
+        score: scoreToolCalls(toolCalls ?? []),
+        matchedReference: 0,
+        ...(toolCalls && { toolCalls }),
+      };
+    }
+
+    // Only calculate similarity score if we have a valid response
+    if (!output.response || output.response.trim().length === 0) {
+      throw new Error('Agent returned an empty response');
+    }
+
+    // Calculate semantic similarity score
+    Logger.debug('Calculating similarity score');
+    const { score, matchedReference } = await this.scoreResponse(
+      output.response.trim(),
+      expected,
+    );
+    return {
+      response: output.response,
+      content: output.content ?? output.response,
+      score,
+      matchedReference,
+      ...(toolCalls && { toolCalls }),
+    };
+  }
+
+  /**
+   * Scores a response against the expected message and its alternatives
+   *
+   * Alternatives are only scored when declared, so single-reference test
+   * cases keep using a plain string comparison.
+   *
+   * @param response The trimmed agent response
+   * @param expected The expected assistant message
+   * @returns Promise that resolves with the score and the matched reference index
+   */
+  private async scoreResponse(
+    response: string,
+    expected: BaseMessage,
+  ): Promise<{ score: number; matchedReference: number }> {
+    const references = [expected.content, ...(expected.alternatives ?? [])].map(
+      (reference) => reference.trim(),
+    );
+
+    if (references.length === 1) {
+      const score = await this.scoringService.scoreStrings(
+        response,
+        references[0],
+      );
+      return { score, matchedReference: 0 };
+    }
+
+    const { score, matchedReference } =
+      await this.scoringService.scoreAgainstReferences(
+        response,
+        references,
+        this.referenceAggregation,
+      );
+    return { score, matchedReference };
+  }
+
+  /**
+   * Gets the effective pass threshold for a test case
+   *
+   * A threshold declared in the test case metadata (directly, or inherited
+   * from its file or directory) takes precedence over the configured one.
+   *
+   * @param testCase The test case to get the threshold for
+   * @returns The threshold between 0 and 1
+   */
+  private getThreshold(testCase: TestCase): number {
+    return testCase.metadata?.threshold ?? this.threshold;
+  }
+
   /**
    * Executes multiple test cases against an agent
    * @param agent The agent to test
@@ -299,6 +673,7 @@ export class EvaluationExecutor {
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
             score: 0,
+            threshold: this.getThreshold(testCase),
             executionTime: 0,
             response: '',
             testCase,
@@ -317,6 +692,12 @@ export class EvaluationExecutor {
 
   /**
    * Executes test cases in parallel with a maximum concurrency
+   *
+   * Each of the `maxConcurrency` workers takes the next test case as soon as
+   * its previous one is done, so a slow test case only holds up its own
+   * slot. Results are returned in the order of the test cases, whatever the
+   * order they complete in.
+   *
    * @param agent The agent to test
    * @param testCases The test cases to execute
    * @param maxConcurrency The maximum number of concurrent executions
@@ -327,7 +708,8 @@ export class EvaluationExecutor {
     testCases: TestCase[],
     maxConcurrency: number,
   ): Promise<TestCaseEvaluation[]> {
-    const results: TestCaseEvaluation[] = [];
+    const results: (TestCaseEvaluation | undefined)[] = [];
+    let nextIndex = 0;
     let completedTests = 0;
 
     Logger.info(
@@ -337,32 +719,145 @@ export class EvaluationExecutor {
     // Start loading indicator
     Logger.startLoading('Running test cases', testCases.length);
 
-    // Process test cases in chunks to limit concurrency
-    for (let i = 0; i < testCases.length; i += maxConcurrency) {
-      const chunk = testCases.slice(i, i + maxConcurrency);
-      const chunkPromises = chunk.map((testCase) =>
-        this.executeTestCase(agent, testCase).then((result) => {
-          // Update loading progress after each test case completes
-          completedTests++;
-          Logger.updateLoadingProgress(completedTests);
-          return result;
-        }),
-      );
+    const runWorker = async (): Promise<void> => {
+      while (nextIndex < testCases.length) {
+        const index = nextIndex++;
+        try {
+          results[index] = await this.executeTestCase(agent, testCases[index]);
+        } catch (error) {
+          Logger.error('Error executing test case:', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            testCaseId: testCases[index].id,
+          });
+        }
 
-      try {
-        const chunkResults = await Promise.all(chunkPromises);
-        results.push(...chunkResults);
-      } catch (error) {
-        Logger.error('Error executing test case chunk:', {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          chunkIndex: i,
-        });
+        // Update loading progress after each test case completes
+        completedTests++;
+        Logger.updateLoadingProgress(completedTests);
       }
-    }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(maxConcurrency, testCases.length) },
+        runWorker,
+      ),
+    );
 
     // Stop loading indicator
     Logger.stopLoading();
 
-    return results;
+    return results.filter(
+      (result): result is TestCaseEvaluation => result !== undefined,
+    );
   }
 }
+
+/**
+ * Tells whether the agent runs a tool loop answered by the recorded tool
+ * responses, which needs tools declared by the test case and an agent that
+ * can call them
+ * @param agent The agent to test
+ * @param testCase The test case to execute
+ * @returns True if the recorded tool calls are expected from the agent
+ */
+const usesMockTools = (agent: IAgent, testCase: TestCase): boolean =>
+  Boolean(testCase.tools?.length) && (agent.supportsTools?.() ?? false);
+
+/**
+ * Rejects if a request does not settle within a timeout, cancelling it
+ * through its abort signal
+ * @param send Starts the request, which should stop when the signal aborts
+ * @param timeout The timeout in milliseconds, or undefined to wait indefinitely
+ * @returns Promise that resolves with the value of the request
+ * @throws Error if the timeout elapses first
+ */
+const withTimeout = async <T>(
+  send: (signal?: AbortSignal) => Promise<T>,
+  timeout: number | undefined,
+): Promise<T> => {
+  if (timeout === undefined) {
+    return send();
+  }
+
+  const controller = new AbortController();
+  let timeoutId: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      send(controller.signal),
+      new Promise<never>((_resolve, reject) => {
+        timeoutId = setTimeout(() => {
+          controller.abort();
+          reject(new Error(`Agent did not respond within ${timeout}ms`));
+        }, timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Gets the outcome of a test case marked `xfail`
+ * @param testCase The executed test case
+ * @param passed Whether the test case passed
+ * @returns The outcome, or undefined if the test case is not marked `xfail`
+ */
+const getXfailOutcome = (
+  testCase: TestCase,
+  passed: boolean,
+): MarkedOutcome | undefined => {
+  if (!testCase.metadata?.xfail) {
+    return undefined;
+  }
+  return passed ? 'unexpected pass' : 'expected failure';
+};
+
+/**
+ * Gets the indices of the assistant turns in a conversation
+ *
+ * A turn is the last message of each run of consecutive assistant messages,
+ * so intermediate tool-calling steps are sent as history rather than scored.
+ * Falls back to the final message when the conversation has no assistant turn.
+ *
+ * @param messageBlocks The messages of the test case
+ * @returns The message indices of the turns to evaluate, in order
+ */
+const getAssistantTurns = (messageBlocks: BaseMessage[]): number[] => {
+  const turns = messageBlocks
+    .map((block, index) => ({ block, index }))
+    .filter(
+      ({ block, index }) =>
+        index > 0 &&
+        block.role === MessageRole.ASSISTANT &&
+        messageBlocks[index + 1]?.role !== MessageRole.ASSISTANT,
+    )
+    .map(({ index }) => index);
+  return turns.length > 0 ? turns : [messageBlocks.length - 1];
+};
+
+/**
+ * Gets where the recorded tool steps leading up to an assistant message start
+ *
+ * Tool steps are the assistant messages with tool uses directly before it.
+ * The first message is never a tool step, even if it is an assistant message
+ * with tool uses, so that the agent always receives at least one message to
+ * respond to.
+ *
+ * @param messageBlocks The messages of the test case
+ * @param messageIndex The index of the assistant message
+ * @returns The index of the first tool step, or the message index if there are none
+ */
+const getToolStepsStart = (
+  messageBlocks: BaseMessage[],
+  messageIndex: number,
+): number => {
+  let start = messageIndex;
+  while (
+    start > 1 &&
+    messageBlocks[start - 1].role === MessageRole.ASSISTANT &&
+    (messageBlocks[start - 1].toolUsages?.length ?? 0) > 0
+  ) {
+    start--;
+  }
+  return start;
+};
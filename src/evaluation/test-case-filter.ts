@@ -0,0 +1,68 @@
+import { TestCase } from '../core/types/message.types.js';
+import { TestCaseFilter } from './types/evaluation.types.js';
+
+/**
+ * Result of filtering a list of test cases
+ */
+export interface FilterResult {
+  /**
+   * Test cases that match the filter
+   */
+  selected: TestCase[];
+
+  /**
+   * Number of test cases that were filtered out
+   */
+  filteredOut: number;
+}
+
+/**
+ * Selects the test cases that match a filter
+ *
+ * A test case is selected when:
+ * - its hierarchical ID matches the `grep` regular expression (if set),
+ * - it has at least one of the `tags` (if any are set), and
+ * - it has none of the `excludeTags`.
+ *
+ * Tags are compared case-insensitively. If any selected test case is marked
+ * `only`, the selection is then restricted to the marked test cases.
+ *
+ * @param testCases The test cases to filter
+ * @param filter The filter to apply
+ * @returns The selected test cases and the number filtered out
+ */
+export function filterTestCases(
+  testCases: TestCase[],
+  filter: TestCaseFilter = {},
+): FilterResult {
+  const pattern = filter.grep ? new RegExp(filter.grep) : undefined;
+  const includeTags = normalizeTags(filter.tags);
+  const excludeTags = normalizeTags(filter.excludeTags);
+
+  const matching = testCases.filter((testCase) => {
+    const tags = normalizeTags(testCase.metadata?.tags);
+
+    if (pattern && !pattern.test(testCase.id)) {
+      return false;
+    }
+    if (includeTags.length > 0 && !includeTags.some((t) => tags.includes(t))) {
+      return false;
+    }
+    return !excludeTags.some((t) => tags.includes(t));
+  });
+  const only = matching.filter((testCase) => testCase.metadata?.only);
+  const selected = only.length > 0 ? only : matching;
+
+  return {
+    selected,
+    filteredOut: testCases.length - selected.length,
+  };
+}
+
+/**
+ * Normalizes tags for case-insensitive comparison
+ * @param tags The tags to normalize
+ * @returns The lowercased tags
+ */
+const normalizeTags = (tags: string[] = []): string[] =>
+  tags.map((tag) => tag.trim().toLowerCase());
@@ -1,4 +1,17 @@
 import { z } from 'zod';
+import { CsvColumnMappingSchema } from '../../parser/csv-parser.js';
+import { RoleAliasesSchema } from '../../core/utils/role-registry.js';
+
+/**
+ * Criteria for selecting which test cases to run
+ */
+export const TestCaseFilterSchema = z.object({
+  grep: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  excludeTags: z.array(z.string()).optional(),
+});
+
+export type TestCaseFilter = z.infer<typeof TestCaseFilterSchema>;
 
 /**
  * Configuration for scoring and report generation
@@ -7,6 +20,14 @@ export const EvaluationConfigSchema = z.object({
   threshold: z.number().min(0).max(1).default(0.8),
   outputFormat: z.enum(['json', 'markdown', 'text']).default('markdown'),
   maxConcurrency: z.number().min(1).default(2),
+  filter: TestCaseFilterSchema.optional(),
+  referenceAggregation: z.enum(['best', 'mean']).optional(),
+  csvColumns: CsvColumnMappingSchema.optional(),
+  turnByTurn: z.boolean().optional(),
+  maxToolSteps: z.number().int().min(1).optional(),
+  roleAliases: RoleAliasesSchema.optional(),
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
 });
 
 export type EvaluationConfig = z.infer<typeof EvaluationConfigSchema>;
@@ -36,6 +57,10 @@ export const EvaluationReportSchema = z.object({
   totalTests: z.number(),
   passedTests: z.number(),
   failedTests: z.number(),
+  filteredTests: z.number(),
+  skippedTests: z.number(),
+  expectedFailures: z.number(),
+  unexpectedPasses: z.number(),
   passRate: z.number().min(0).max(1),
   results: z.array(
     z.object({
@@ -45,7 +70,45 @@ export const EvaluationReportSchema = z.object({
         expected: z.string(),
       }),
       score: z.number().min(0).max(1),
+      threshold: z.number().min(0).max(1),
+      matchedReference: z.number().int().min(0).optional(),
+      assertions: z
+        .array(
+          z.object({
+            type: z.enum(['contains', 'not-contains', 'regex', 'equals']),
+            value: z.string(),
+            flags: z.string().optional(),
+            passed: z.boolean(),
+          }),
+        )
+        .optional(),
+      toolCalls: z
+        .array(
+          z.object({
+            name: z.string(),
+            expectedArgs: z.string(),
+            actualArgs: z.string().optional(),
+            passed: z.boolean(),
+            reason: z
+              .enum(['not called', 'different arguments', 'out of order'])
+              .optional(),
+          }),
+        )
+        .optional(),
+      turns: z
+        .array(
+          z.object({
+            turn: z.number().int().min(1),
+            score: z.number().min(0).max(1),
+            passed: z.boolean(),
+            response: z.string(),
+          }),
+        )
+        .optional(),
       passed: z.boolean(),
+      outcome: z
+        .enum(['skipped', 'expected failure', 'unexpected pass'])
+        .optional(),
       error: z.string().optional(),
       timestamp: z.date(),
       response: z.string(),
@@ -1,5 +1,7 @@
 import { BaseMessage } from '../../core/types/message.types.js';
 import { TestCase as CoreTestCase } from '../../core/types/message.types.js';
+import { AssertionResult } from '../../scoring/utils/assertions.js';
+import { ToolCallResult } from '../../scoring/utils/tool-calls.js';
 
 /**
  * Represents a test case for agent evaluation.
@@ -46,6 +48,55 @@ export interface TestCaseResult {
   executionTime: number;
 }
 
+/**
+ * Outcome of a test case marked `skip` or `xfail`, which is counted apart from
+ * the passed and failed test cases.
+ * - skipped: the test case was not run
+ * - expected failure: the test case is marked `xfail` and failed
+ * - unexpected pass: the test case is marked `xfail` but passed
+ */
+export type MarkedOutcome = 'skipped' | 'expected failure' | 'unexpected pass';
+
+/**
+ * Represents the result of evaluating one assistant turn of a test case.
+ */
+export interface TurnEvaluation {
+  /**
+   * Position of the turn among the evaluated turns, starting at 1.
+   */
+  turn: number;
+
+  /**
+   * Index of the recorded assistant message in the test case.
+   */
+  messageIndex: number;
+
+  /**
+   * Score between 0 and 1 of the reply against the recorded message.
+   */
+  score: number;
+
+  /**
+   * Whether the score reaches the threshold of the test case.
+   */
+  passed: boolean;
+
+  /**
+   * Index of the reference that best matched the reply.
+   */
+  matchedReference: number;
+
+  /**
+   * The reply of the agent to the history before the turn.
+   */
+  response: string;
+
+  /**
+   * The outcome of each tool call recorded on the message, if any.
+   */
+  toolCalls?: ToolCallResult[];
+}
+
 /**
  * Represents the complete result of evaluating a test case, including the test case itself
  * and the agent's response.
@@ -66,11 +117,43 @@ export interface TestCaseEvaluation {
    */
   error?: string;
 
+  /**
+   * The outcome of a test case marked `skip` or `xfail`.
+   */
+  outcome?: MarkedOutcome;
+
   /**
    * Score between 0 and 1 indicating how well the agent performed.
    */
   score: number;
 
+  /**
+   * The minimum score required to pass, after applying test case overrides.
+   */
+  threshold: number;
+
+  /**
+   * Index of the reference that best matched the response: 0 for the expected
+   * message, 1 and up for its alternatives.
+   */
+  matchedReference?: number;
+
+  /**
+   * The outcome of each assertion declared on the test case.
+   */
+  assertions?: AssertionResult[];
+
+  /**
+   * The outcome of each tool call recorded on the evaluated messages.
+   */
+  toolCalls?: ToolCallResult[];
+
+  /**
+   * The evaluation of each assistant turn, in turn-by-turn mode. The score of
+   * the test case is then the mean of the turn scores.
+   */
+  turns?: TurnEvaluation[];
+
   /**
    * Time taken to execute the test case in milliseconds.
    */
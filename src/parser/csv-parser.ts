@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import {
+  BaseMessage,
+  MessageRole,
+  TestCase,
+  TestCaseMetadata,
+} from '../core/types/message.types.js';
+import { readCsvRecords } from './csv.js';
+import { ParseError } from './errors.js';
+import { mergeMetadata } from './front-matter.js';
+
+/**
+ * Schema for the mapping from test case fields to CSV column names
+ */
+export const CsvColumnMappingSchema = z
+  .object({
+    input: z.string().min(1),
+    expected: z.string().min(1),
+    system: z.string().min(1),
+    tags: z.string().min(1),
+    id: z.string().min(1),
+    name: z.string().min(1),
+  })
+  .partial()
+  .strict();
+
+export type CsvColumnMapping = Required<z.infer<typeof CsvColumnMappingSchema>>;
+
+/**
+ * Column names used when no mapping is configured
+ */
+export const DEFAULT_CSV_COLUMNS: CsvColumnMapping = {
+  input: 'input',
+  expected: 'expected',
+  system: 'system',
+  tags: 'tags',
+  id: 'id',
+  name: 'name',
+};
+
+/**
+ * Parser for CSV datasets of single-turn test cases
+ *
+ * Each row becomes a user message followed by the expected assistant
+ * message. The `input` and `expected` columns are required; the `system`,
+ * `tags`, `id` and `name` columns are used when the header contains them.
+ *
+ * @example
+ * input,expected,tags
+ * "What's 2 + 2?",4,math
+ * "Say hello
+ * in French",Bonjour,"i18n, smoke"
+ */
+export class CsvParser {
+  private readonly columns: CsvColumnMapping;
+
+  /**
+   * @param columns Column names that differ from {@link DEFAULT_CSV_COLUMNS}
+   */
+  constructor(columns: Partial<CsvColumnMapping> = {}) {
+    this.columns = { ...DEFAULT_CSV_COLUMNS, ...columns };
+  }
+
+  /**
+   * Parses all rows of a CSV dataset into test cases
+   * @param text The content of the CSV file
+   * @param baseName The base name for test cases without an ID or name
+   * @param hierarchicalId The hierarchical ID based on folder structure
+   * @param defaults Metadata inherited from the enclosing directories
+   * @returns Array of parsed test cases
+   * @throws ParseError if the CSV is malformed, a required column is missing or a row is invalid
+   */
+  public parseMultiple(
+    text: string,
+    baseName: string,
+    hierarchicalId: string,
+    defaults: TestCaseMetadata = {},
+  ): TestCase[] {
+    const { records: rows, lines } = readCsvRecords(text);
+    if (rows.length === 0) {
+      throw new ParseError('No test cases found in file');
+    }
+
+    for (const field of ['input', 'expected'] as const) {
+      if (!(this.columns[field] in rows[0])) {
+        throw new ParseError(
+          `CSV file is missing the "${this.columns[field]}" column for ${field}`,
+          1,
+        );
+      }
+    }
+
+    return rows.map((row, index) => {
+      const cell = (field: keyof CsvColumnMapping): string =>
+        (row[this.columns[field]] ?? '').trim();
+
+      for (const field of ['input', 'expected'] as const) {
+        if (!cell(field)) {
+          throw new ParseError(
+            `CSV row ${index + 1} has an empty "${this.columns[field]}" cell`,
+            lines[index],
+          );
+        }
+      }
+
+      const name =
+        cell('name') ||
+        cell('id') ||
+        (rows.length > 1 ? `${baseName}_${index + 1}` : baseName);
+      const tags = cell('tags')
+        .split(/[,;]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+      const metadata = mergeMetadata(defaults, tags.length > 0 ? { tags } : {});
+
+      const messageBlocks: BaseMessage[] = [];
+      if (cell('system')) {
+        messageBlocks.push(this.toBlock(MessageRole.SYSTEM, cell('system')));
+      }
+      messageBlocks.push(
+        this.toBlock(MessageRole.USER, row[this.columns.input]),
+        this.toBlock(MessageRole.ASSISTANT, row[this.columns.expected]),
+      );
+
+      return {
+        id: `${hierarchicalId}/${cell('id') || name}`,
+        name,
+        messageBlocks,
+        ...(Object.keys(metadata).length > 0 && { metadata }),
+      };
+    });
+  }
+
+  /**
+   * Creates a message block without tool activity
+   * @param role The role of the message
+   * @param content The content of the message
+   * @returns The message block
+   */
+  private toBlock(role: MessageRole, content: string): BaseMessage {
+    return { role, content: content.trim(), toolUsages: [], toolResponses: [] };
+  }
+}
@@ -0,0 +1,149 @@
+import { ParseError } from './errors.js';
+
+/**
+ * Parses CSV text into rows of cells
+ *
+ * Follows RFC 4180: cells may be wrapped in double quotes, quoted cells may
+ * contain commas and line breaks, and a doubled quote (`""`) inside a quoted
+ * cell stands for a literal quote. Both `\n` and `\r\n` line endings are
+ * accepted, and blank lines are skipped.
+ *
+ * @param text The CSV text to parse
+ * @returns Array of rows, each an array of cell values
+ * @throws ParseError if a quoted cell is not terminated
+ */
+export function parseCsv(text: string): string[][] {
+  return readCsv(text).rows;
+}
+
+/**
+ * Parses CSV text into rows of cells along with the line each row starts on
+ * @param text The CSV text to parse
+ * @returns The rows and their 1-based line numbers
+ * @throws ParseError if a quoted cell is not terminated
+ */
+function readCsv(text: string): { rows: string[][]; lines: number[] } {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+  let quoteStartLine = 1;
+
+  const endRow = (): void => {
+    row.push(cell);
+    // Skip blank lines rather than producing a single empty cell
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+      lines.push(rowStartLine);
+    }
+    row = [];
+    cell = '';
+    rowStartLine = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else if (char === '\r' && text[i + 1] === '\n') {
+        // Normalize line breaks inside quoted cells to \n
+        continue;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        if (cell === '') {
+          inQuotes = true;
+          quoteStartLine = line;
+        } else {
+          cell += char;
+        }
+        break;
+      case ',':
+        row.push(cell);
+        cell = '';
+        break;
+      case '\r':
+        if (text[i + 1] !== '\n') {
+          cell += char;
+        }
+        break;
+      case '\n':
+        line++;
+        endRow();
+        break;
+      default:
+        cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ParseError('Unterminated quoted CSV cell', quoteStartLine);
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return { rows, lines };
+}
+
+/**
+ * Parses CSV text with a header row into records keyed by column name
+ * @param text The CSV text to parse
+ * @returns Array of records, one per data row
+ * @throws ParseError if the CSV is malformed or a row has the wrong number of cells
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  return readCsvRecords(text).records;
+}
+
+/**
+ * Parses CSV text with a header row into records along with the line each
+ * record starts on
+ * @param text The CSV text to parse
+ * @returns The records and their 1-based line numbers
+ * @throws ParseError if the CSV is malformed or a row has the wrong number of cells
+ */
+export function readCsvRecords(text: string): {
+  records: Record<string, string>[];
+  lines: number[];
+} {
+  const {
+    rows: [header, ...rows],
+    lines: [, ...lines],
+  } = readCsv(text);
+  if (!header) {
+    return { records: [], lines: [] };
+  }
+
+  const columns = header.map((column) => column.trim());
+  const records = rows.map((row, index) => {
+    if (row.length !== columns.length) {
+      throw new ParseError(
+        `CSV row ${index + 1} has ${row.length} cells but the header has ${columns.length}`,
+        lines[index],
+      );
+    }
+    return Object.fromEntries(
+      columns.map((column, columnIndex) => [column, row[columnIndex]]),
+    );
+  });
+  return { records, lines };
+}
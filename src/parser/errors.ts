@@ -1,12 +1,66 @@
 /**
  * Error thrown when parsing fails
+ *
+ * Line and column numbers are 1-based. They are relative to the text that was
+ * parsed until the loader resolves them against the file, at which point
+ * `filePath` names the file that holds the offending line.
  */
 export class ParseError extends Error {
+  /**
+   * The file that holds the offending line, once resolved by the loader
+   */
+  public filePath?: string;
+
   constructor(
     message: string,
     public lineNumber?: number,
+    public column?: number,
   ) {
     super(message);
     this.name = 'ParseError';
   }
 }
+
+/**
+ * A problem found while parsing that does not prevent the test case from
+ * being used
+ */
+export interface ParseWarning {
+  /**
+   * The warning message
+   */
+  message: string;
+
+  /**
+   * The 1-based line of the problem, if known
+   */
+  lineNumber?: number;
+
+  /**
+   * The 1-based column of the problem, if known
+   */
+  column?: number;
+}
+
+/**
+ * Attaches a position to a parse error that does not have one yet
+ *
+ * Lets a caller that knows which line it was working on locate errors thrown
+ * by helpers that only see a value, such as assertion or JSON parsing.
+ *
+ * @param error The caught error
+ * @param lineNumber The line being parsed when the error was thrown
+ * @param column The column being parsed when the error was thrown
+ * @returns The same error, for rethrowing
+ */
+export function withPosition(
+  error: unknown,
+  lineNumber: number,
+  column = 1,
+): unknown {
+  if (error instanceof ParseError && error.lineNumber === undefined) {
+    error.lineNumber = lineNumber;
+    error.column = column;
+  }
+  return error;
+}
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { TestCaseMetadata } from '../core/types/message.types.js';
+import { ParseError } from './errors.js';
+import { parseVariableTable, VariableRow } from './variables.js';
+
+/**
+ * Schema for a `true` or `false` front-matter value
+ */
+const FlagSchema = z
+  .enum(['true', 'false'])
+  .transform((value) => value === 'true');
+
+/**
+ * Schema for a file path front-matter value, which may be quoted
+ */
+const PathSchema = z
+  .string()
+  .transform((value) => value.replace(/^(["'])(.*)\1$/, '$2').trim())
+  .pipe(z.string().min(1, 'Path cannot be empty'));
+
+/**
+ * Schema for the values accepted in a test case front-matter block
+ *
+ * Every value arrives as a raw string and is converted to its typed form here.
+ */
+const FrontMatterSchema = z
+  .object({
+    id: z.string().regex(/^[^/]+$/, 'Test case IDs cannot contain "/"'),
+    tags: z.string().transform((value) =>
+      value
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    ),
+    owner: z.string(),
+    threshold: z.coerce.number().min(0).max(1),
+    scorer: z.enum(['similarity', 'tool-calls']),
+    timeout: z.coerce.number().int().positive(),
+    description: z.string(),
+    data: PathSchema,
+    tools: PathSchema,
+    toolArgs: z.enum(['exact', 'subset']),
+    toolOrder: z.enum(['strict', 'any']),
+    skip: FlagSchema,
+    only: FlagSchema,
+    xfail: FlagSchema,
+  })
+  .partial()
+  .strict();
+
+/**
+ * Schema for test case metadata in structured formats such as JSON and YAML
+ */
+export const TestCaseMetadataSchema = z
+  .object({
+    tags: z.union([
+      z.array(z.string()),
+      z.string().transform((value) =>
+        value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      ),
+    ]),
+    owner: z.string(),
+    threshold: z.number().min(0).max(1),
+    scorer: z.enum(['similarity', 'tool-calls']),
+    timeout: z.number().int().positive(),
+    description: z.string(),
+    data: z.string(),
+    tools: z.string(),
+    toolArgs: z.enum(['exact', 'subset']),
+    toolOrder: z.enum(['strict', 'any']),
+    skip: z.boolean(),
+    only: z.boolean(),
+    xfail: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Keys that are recognized as front-matter rather than message roles
+ */
+export const FRONT_MATTER_KEYS: ReadonlySet<string> = new Set(
+  Object.keys(FrontMatterSchema.shape),
+);
+
+/**
+ * Front-matter keys by their lowercased form, as keys are case-insensitive
+ */
+const KEYS_BY_NAME: ReadonlyMap<string, string> = new Map(
+  [...FRONT_MATTER_KEYS].map((key) => [key.toLowerCase(), key]),
+);
+
+/**
+ * Pattern for a single `key: value` front-matter line
+ */
+const FRONT_MATTER_LINE = /^\s*([A-Za-z][\w-]*)\s*:\s*(.*)$/;
+
+/**
+ * Result of extracting the front-matter block from a test case
+ */
+export interface FrontMatterResult {
+  /**
+   * The typed metadata declared in the block
+   */
+  metadata: TestCaseMetadata;
+
+  /**
+   * The explicit ID of the test case, which replaces its title in the
+   * test case ID so that renaming the title keeps its history
+   */
+  id?: string;
+
+  /**
+   * Rows of the inline variable table, if the block declares one
+   */
+  variables?: VariableRow[];
+
+  /**
+   * The remaining test case text after the block
+   */
+  body: string;
+
+  /**
+   * Number of lines of the text that precede the body
+   */
+  bodyOffset: number;
+}
+
+/**
+ * Extracts the front-matter block from the top of a test case
+ *
+ * The block is a run of `key: value` lines that appears before the first
+ * message role. Only the keys in {@link FRONT_MATTER_KEYS} are consumed, so the
+ * first role line (or any other line) ends the block. The block may also hold
+ * a Markdown table of values for `{{variable}}` placeholders.
+ *
+ * @example
+ * id: paris-weather
+ * tags: weather, smoke
+ * owner: support-team
+ * threshold: 0.9
+ * | city  | temperature |
+ * |-------|-------------|
+ * | Paris | 18°C        |
+ *
+ * user: What's the weather like in Paris?
+ *
+ * @param text The test case text without its title
+ * @param lineOffset Number of lines that precede the text in its file
+ * @returns The parsed metadata, the explicit ID if any, and the remaining text
+ * @throws ParseError if a key is repeated or a value is invalid
+ */
+export function parseFrontMatter(
+  text: string,
+  lineOffset = 0,
+): FrontMatterResult {
+  const lines = text.split('\n');
+  const rawValues: Record<string, string> = {};
+  const keyLines: Record<string, number> = {};
+  const tableLines: string[] = [];
+  let tableStart = 0;
+  let index = 0;
+
+  // Gets the line number and column of the first non-blank character of a line
+  const positionOf = (lineIndex: number): [number, number] => [
+    lineOffset + lineIndex + 1,
+    Math.max(lines[lineIndex].search(/\S/), 0) + 1,
+  ];
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.trim() === '') {
+      continue;
+    }
+
+    if (line.trim().startsWith('|')) {
+      if (tableLines.length > 0 && !lines[index - 1].trim().startsWith('|')) {
+        throw new ParseError(
+          'Only one variable table is allowed per test case',
+          ...positionOf(index),
+        );
+      }
+      if (tableLines.length === 0) {
+        tableStart = index;
+      }
+      tableLines.push(line);
+      continue;
+    }
+
+    const match = line.match(FRONT_MATTER_LINE);
+    const key = match && KEYS_BY_NAME.get(match[1].toLowerCase());
+    if (!match || !key) {
+      break;
+    }
+
+    const value = match[2].trim();
+    if (key in rawValues) {
+      throw new ParseError(
+        `Duplicate metadata key: ${key}`,
+        ...positionOf(index),
+      );
+    }
+    if (!value) {
+      throw new ParseError(
+        `Metadata key "${key}" requires a value`,
+        ...positionOf(index),
+      );
+    }
+    rawValues[key] = value;
+    keyLines[key] = index;
+  }
+
+  const result = FrontMatterSchema.safeParse(rawValues);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const key = String(issue.path[0]);
+    throw new ParseError(
+      `Invalid metadata value for "${issue.path.join('.')}": ${issue.message}`,
+      ...(key in keyLines ? positionOf(keyLines[key]) : []),
+    );
+  }
+
+  let variables: VariableRow[] | undefined;
+  if (tableLines.length > 0) {
+    try {
+      variables = parseVariableTable(tableLines);
+    } catch (error) {
+      if (error instanceof ParseError && error.lineNumber !== undefined) {
+        [error.lineNumber, error.column] = positionOf(
+          tableStart + error.lineNumber - 1,
+        );
+      }
+      throw error;
+    }
+  }
+
+  const { id, ...metadata } = result.data;
+  return {
+    metadata,
+    ...(id !== undefined && { id }),
+    ...(variables && { variables }),
+    body: lines.slice(index).join('\n'),
+    bodyOffset: index,
+  };
+}
+
+/**
+ * Merges two metadata objects, letting the more specific one win
+ *
+ * Scalar values from `override` replace those in `base`, while tags from both
+ * objects are combined.
+ *
+ * @param base The inherited metadata (for example file or directory defaults)
+ * @param override The more specific metadata
+ * @returns The merged metadata
+ */
+export function mergeMetadata(
+  base: TestCaseMetadata,
+  override: TestCaseMetadata,
+): TestCaseMetadata {
+  const merged: TestCaseMetadata = { ...base, ...override };
+  if (base.tags || override.tags) {
+    merged.tags = Array.from(
+      new Set([...(base.tags ?? []), ...(override.tags ?? [])]),
+    );
+  }
+  return merged;
+}
@@ -0,0 +1,158 @@
+import { posix } from 'path';
+
+/**
+ * Name of the file that lists the paths a directory leaves out of test
+ * discovery
+ */
+export const IGNORE_FILE = '.heboevalignore';
+
+/**
+ * A pattern of an ignore file
+ */
+export interface IgnoreRule {
+  /**
+   * The glob, without its `!` prefix or trailing `/`
+   */
+  pattern: string;
+
+  /**
+   * Whether the rule brings back paths that earlier rules ignore (`!pattern`)
+   */
+  negated: boolean;
+
+  /**
+   * Whether the rule only matches directories (`pattern/`)
+   */
+  directoryOnly: boolean;
+
+  /**
+   * The directory of the ignore file, which the pattern is relative to
+   */
+  base: string;
+}
+
+/**
+ * Converts a glob into a regular expression matching whole `/`-separated
+ * paths
+ *
+ * `*` and `?` match within a path segment, `**` matches any number of
+ * segments, and `[abc]` and `{a,b}` match one of the listed characters or
+ * alternatives.
+ *
+ * @param glob The glob to convert
+ * @returns The regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      const followedBySlash = glob[index + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      index += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.includes(']', index + 2)) {
+      const end = glob.indexOf(']', index + 2);
+      const members = glob.slice(index + 1, end).replace(/\\/g, '\\\\');
+      source += `[${members.replace(/^!/, '^')}]`;
+      index = end;
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$|()[\]{}\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}${')'.repeat(braceDepth)}$`);
+}
+
+/**
+ * Checks whether a path matches a glob
+ *
+ * A glob without a `/` matches the file or directory name at any depth, as
+ * in `.gitignore`. Other globs match the whole path, with a leading `/` or
+ * `./` anchoring them explicitly.
+ *
+ * @example
+ * matchesGlob('drafts/README.md', '*.md') // true
+ * matchesGlob('drafts/README.md', 'drafts/*') // true
+ * matchesGlob('drafts/README.md', '/README.md') // false
+ *
+ * @param path The `/`-separated path, relative to the directory the glob applies to
+ * @param glob The glob to match
+ * @returns True if the path matches
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const pattern = glob.replace(/\/$/, '');
+  if (!pattern.includes('/')) {
+    return globToRegExp(pattern).test(posix.basename(path));
+  }
+  return globToRegExp(pattern.replace(/^\.?\//, '')).test(path);
+}
+
+/**
+ * Parses the content of an ignore file, in the format of `.gitignore`
+ *
+ * Blank lines and lines starting with `#` are skipped. A trailing `/`
+ * restricts a pattern to directories and a leading `!` brings back paths
+ * that an earlier pattern ignores.
+ *
+ * @param content The content of the ignore file
+ * @param base The directory of the ignore file
+ * @returns The rules of the file, in order
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  return content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      const negated = line.startsWith('!');
+      const pattern = negated ? line.slice(1) : line;
+      return {
+        pattern: pattern.replace(/\/$/, ''),
+        negated,
+        directoryOnly: pattern.endsWith('/'),
+        base,
+      };
+    });
+}
+
+/**
+ * Checks whether ignore rules leave out a path, the last matching rule
+ * winning
+ * @param path The `/`-separated path, relative to the same directory as the bases of the rules
+ * @param isDirectory Whether the path is a directory
+ * @param rules The rules of the ignore files that apply to the path
+ * @returns True if the path is ignored
+ */
+export function isIgnored(
+  path: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[],
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    const relativePath = posix.relative(rule.base, path);
+    if (
+      relativePath === '..' ||
+      relativePath.startsWith('../') ||
+      (rule.directoryOnly && !isDirectory)
+    ) {
+      continue;
+    }
+    if (matchesGlob(relativePath, rule.pattern)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
@@ -1,2 +1,8 @@
 export * from './tokenizer';
 export * from './parser';
+export * from './json-parser';
+export * from './yaml-parser';
+export * from './csv-parser';
+export * from './validator';
+export * from './tools';
+export * from './markers';
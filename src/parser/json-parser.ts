@@ -0,0 +1,322 @@
+import { z } from 'zod';
+import {
+  ANY_TOOL_ARGS,
+  BaseMessage,
+  MessageRole,
+  TestCase,
+  TestCaseMetadata,
+  ToolUsage,
+} from '../core/types/message.types.js';
+import {
+  ATTACHMENT_ROLES,
+  createAttachment,
+} from '../core/utils/content-parts.js';
+import { ParseError } from './errors.js';
+import { mergeMetadata, TestCaseMetadataSchema } from './front-matter.js';
+import { ToolDefinitionsSchema } from './tools.js';
+import { extractMarkers } from './markers.js';
+import {
+  formatToolArgs,
+  parseAssertion,
+  validateMessageBlocks,
+} from './parser.js';
+
+/**
+ * Schema for a tool call in the OpenAI chat format
+ */
+const ToolCallSchema = z
+  .object({
+    type: z.literal('function').optional(),
+    function: z.object({
+      name: z.string().min(1),
+      arguments: z.union([z.string(), z.record(z.unknown())]),
+    }),
+  })
+  .passthrough();
+
+/**
+ * Schema for a message in a test case record
+ */
+const MessageSchema = z
+  .object({
+    role: z.enum([
+      'system',
+      'developer',
+      'user',
+      'assistant',
+      'human_agent',
+      'tool',
+      'function',
+    ]),
+    content: z.string().nullish(),
+    tool_calls: z.array(ToolCallSchema).optional(),
+    alternatives: z.array(z.string()).optional(),
+    attachments: z.array(z.string().min(1)).optional(),
+  })
+  .passthrough();
+
+/**
+ * Schema for a test case record in a JSON or JSONL file
+ */
+const TestCaseRecordSchema = z
+  .object({
+    id: z.union([z.string().min(1), z.number()]).optional(),
+    name: z.string().min(1).optional(),
+    metadata: TestCaseMetadataSchema.optional(),
+    messages: z.array(MessageSchema).min(1),
+    expected: z
+      .union([
+        z.string(),
+        MessageSchema.omit({ role: true }).extend({
+          role: z.literal('assistant').optional(),
+        }),
+      ])
+      .optional(),
+    expect: z.array(z.string()).optional(),
+    tools: ToolDefinitionsSchema.optional(),
+  })
+  .passthrough();
+
+type TestCaseRecord = z.infer<typeof TestCaseRecordSchema>;
+type RecordMessage = z.infer<typeof MessageSchema>;
+
+/**
+ * Supported JSON file layouts
+ * - json: an array of records (or a single record)
+ * - jsonl: one record per line
+ */
+export type JsonFormat = 'json' | 'jsonl';
+
+/**
+ * Parser for test cases exported as JSON or JSON Lines
+ *
+ * Each record has the form
+ * `{ id, name, messages: [{ role, content, tool_calls }], expected }` where
+ * `messages` follows the OpenAI chat format and `expected` is the assistant
+ * response to score against. Messages with the `tool` role become tool
+ * responses of the preceding assistant message. Records may also carry
+ * `metadata`, `expect` assertions, assistant `alternatives` and the `tools`
+ * the agent may call.
+ */
+export class JsonParser {
+  constructor(private readonly format: JsonFormat = 'json') {}
+
+  /**
+   * Parses all test case records from a file
+   * @param text The content of the file
+   * @param baseName The base name for test cases without an ID or name
+   * @param hierarchicalId The hierarchical ID based on folder structure
+   * @param defaults Metadata inherited from the enclosing directories
+   * @returns Array of parsed test cases
+   * @throws ParseError if the JSON is malformed or a record is invalid
+   */
+  public parseMultiple(
+    text: string,
+    baseName: string,
+    hierarchicalId: string,
+    defaults: TestCaseMetadata = {},
+  ): TestCase[] {
+    const records = this.readRecords(text);
+    if (records.length === 0) {
+      throw new ParseError('No test cases found in file');
+    }
+
+    return records.map(({ value: raw, line }, index) => {
+      const result = TestCaseRecordSchema.safeParse(raw);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new ParseError(
+          `Invalid test case record at index ${index}: ${issue.path.join('.') || 'record'}: ${issue.message}`,
+          line,
+        );
+      }
+
+      try {
+        return this.toTestCase(
+          result.data,
+          records.length > 1 ? `${baseName}_${index + 1}` : baseName,
+          hierarchicalId,
+          defaults,
+        );
+      } catch (error) {
+        throw new ParseError(
+          `Invalid test case record at index ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          line,
+        );
+      }
+    });
+  }
+
+  /**
+   * Reads the raw records from the file content
+   *
+   * Records of a JSONL file know the line they were read from; records of a
+   * JSON array do not.
+   *
+   * @param text The content of the file
+   * @returns The raw, unvalidated records
+   * @throws ParseError if the content is not valid JSON
+   */
+  private readRecords(text: string): { value: unknown; line?: number }[] {
+    if (this.format === 'jsonl') {
+      return text
+        .split('\n')
+        .map((line, lineIndex) => ({ line: line.trim(), lineIndex }))
+        .filter(({ line }) => line !== '')
+        .map(({ line, lineIndex }, index) => {
+          try {
+            return { value: JSON.parse(line) as unknown, line: lineIndex + 1 };
+          } catch (error) {
+            throw new ParseError(
+              `Invalid JSON in record at index ${index}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              lineIndex + 1,
+            );
+          }
+        });
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new ParseError(
+        `Invalid JSON: ${message}`,
+        ...getJsonErrorPosition(text, message),
+      );
+    }
+    const records: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+    return records.map((value) => ({ value }));
+  }
+
+  /**
+   * Converts a validated record into a test case
+   * @param record The validated record
+   * @param fallbackName The name used when the record has neither ID nor name
+   * @param hierarchicalId The hierarchical ID based on folder structure
+   * @param defaults Metadata inherited from the enclosing directories
+   * @returns The test case
+   * @throws ParseError if the conversation structure is invalid
+   */
+  private toTestCase(
+    record: TestCaseRecord,
+    fallbackName: string,
+    hierarchicalId: string,
+    defaults: TestCaseMetadata,
+  ): TestCase {
+    const messages: RecordMessage[] = [...record.messages];
+    if (record.expected !== undefined) {
+      messages.push(
+        typeof record.expected === 'string'
+          ? { role: 'assistant', content: record.expected }
+          : { ...record.expected, role: 'assistant' },
+      );
+    }
+
+    const messageBlocks: BaseMessage[] = [];
+    messages.forEach((message, index) => {
+      if (message.role === 'tool' || message.role === 'function') {
+        const previous = messageBlocks[messageBlocks.length - 1];
+        if (!previous || previous.role !== MessageRole.ASSISTANT) {
+          throw new ParseError(
+            `Tool message at messages.${index} must follow an assistant message`,
+          );
+        }
+        (previous.toolResponses ??= []).push({
+          content: message.content ?? '',
+        });
+        return;
+      }
+
+      const role = message.role as MessageRole;
+      if (message.attachments && !ATTACHMENT_ROLES.has(role)) {
+        throw new ParseError(
+          `Attachments cannot be added to ${role} messages (messages.${index})`,
+        );
+      }
+      messageBlocks.push({
+        role,
+        content: message.content ?? '',
+        toolUsages: (message.tool_calls ?? []).map(toToolUsage),
+        toolResponses: [],
+        ...(message.alternatives && { alternatives: message.alternatives }),
+        ...(message.attachments && {
+          attachments: message.attachments.map(createAttachment),
+        }),
+      });
+    });
+
+    validateMessageBlocks(messageBlocks);
+    if (
+      messageBlocks[messageBlocks.length - 1].role !== MessageRole.ASSISTANT
+    ) {
+      throw new ParseError(
+        'Record must end with an assistant message or provide "expected"',
+      );
+    }
+
+    const { title, markers } = extractMarkers(record.name ?? '');
+    const name =
+      title || (record.id !== undefined ? String(record.id) : fallbackName);
+    const metadata = mergeMetadata(
+      mergeMetadata(defaults, record.metadata ?? {}),
+      markers,
+    );
+    const assertions = record.expect?.map((value) => parseAssertion(value));
+    return {
+      id: `${hierarchicalId}/${record.id ?? name}`,
+      name,
+      messageBlocks,
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+      ...(assertions && assertions.length > 0 && { assertions }),
+      ...(record.tools && record.tools.length > 0 && { tools: record.tools }),
+    };
+  }
+}
+
+/**
+ * Gets the line and column of a JSON syntax error from its message
+ * @param text The JSON text that failed to parse
+ * @param message The message of the syntax error
+ * @returns The 1-based line and column, or nothing if the message has no position
+ */
+const getJsonErrorPosition = (
+  text: string,
+  message: string,
+): [number, number] | [] => {
+  const match = message.match(/at position (\d+)/);
+  if (!match) {
+    return [];
+  }
+  const before = text.slice(0, Number(match[1])).split('\n');
+  return [before.length, before[before.length - 1].length + 1];
+};
+
+/**
+ * Converts an OpenAI tool call into a tool usage
+ * @param toolCall The tool call to convert
+ * @returns The tool usage
+ * @throws ParseError if the arguments are not a JSON object
+ */
+const toToolUsage = (toolCall: z.infer<typeof ToolCallSchema>): ToolUsage => {
+  const { name, arguments: args } = toolCall.function;
+  if (args === ANY_TOOL_ARGS) {
+    return { name, args };
+  }
+  let parsedArgs: unknown = args;
+  if (typeof args === 'string') {
+    try {
+      parsedArgs = JSON.parse(args);
+    } catch {
+      parsedArgs = undefined;
+    }
+  }
+  if (
+    typeof parsedArgs !== 'object' ||
+    parsedArgs === null ||
+    Array.isArray(parsedArgs)
+  ) {
+    throw new ParseError(`Tool call "${name}" must have JSON object arguments`);
+  }
+  return { name, args: formatToolArgs(parsedArgs as Record<string, unknown>) };
+};
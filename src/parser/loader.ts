@@ -1,7 +1,188 @@
-import { readFile, readdir } from 'fs/promises';
-import { join, extname, basename, relative, dirname } from 'path';
+import { readFile, readdir, realpath, stat } from 'fs/promises';
+import {
+  join,
+  extname,
+  basename,
+  relative,
+  dirname,
+  resolve,
+  isAbsolute,
+  sep,
+} from 'path';
 import { Parser } from './parser.js';
-import { TestCase } from '../core/types/message.types.js';
+import { JsonParser } from './json-parser.js';
+import { YamlParser } from './yaml-parser.js';
+import { CsvColumnMapping, CsvParser } from './csv-parser.js';
+import {
+  AttachmentContentPart,
+  TestCase,
+  TestCaseMetadata,
+  ToolDefinition,
+} from '../core/types/message.types.js';
+import { RoleAliases, RoleRegistry } from '../core/utils/role-registry.js';
+import { ParseError, ParseWarning } from './errors.js';
+import { mergeMetadata, parseFrontMatter } from './front-matter.js';
+import {
+  IGNORE_FILE,
+  IgnoreRule,
+  isIgnored,
+  matchesGlob,
+  parseIgnoreFile,
+} from './globs.js';
+import { mergeTools, parseToolFile } from './tools.js';
+import { expandTestCase, parseVariableFile, VariableRow } from './variables.js';
+
+/**
+ * Name of the file that declares default metadata for a directory
+ */
+export const DIRECTORY_SETTINGS_FILE = '.heboeval';
+
+/**
+ * Pattern for a single line holding an `include: <path>` directive
+ */
+export const INCLUDE_LINE = /^[ \t]*include:[ \t]*(.*?)[ \t]*$/i;
+
+/**
+ * Parser for one test case file format
+ */
+interface TestCaseFileParser {
+  parseMultiple(
+    text: string,
+    baseName: string,
+    hierarchicalId: string,
+    defaults?: TestCaseMetadata,
+    onWarning?: (warning: ParseWarning) => void,
+  ): TestCase[];
+}
+
+/**
+ * Extensions of the role-prefixed text format, which supports `include:`
+ */
+export const TEXT_EXTENSIONS: ReadonlySet<string> = new Set(['.txt', '.md']);
+
+/**
+ * Extensions of formats that can reference data, tool and attachment files
+ */
+const REFERENCING_EXTENSIONS: ReadonlySet<string> = new Set([
+  ...TEXT_EXTENSIONS,
+  '.json',
+  '.jsonl',
+  '.yaml',
+  '.yml',
+]);
+
+/**
+ * Options for loading test cases
+ */
+export interface LoaderOptions {
+  /**
+   * Column names of CSV datasets that differ from the defaults
+   */
+  csvColumns?: Partial<CsvColumnMapping>;
+
+  /**
+   * Additional role names for the text format, such as `customer` for user
+   */
+  roleAliases?: RoleAliases;
+
+  /**
+   * Globs that files found in a directory must match to be loaded
+   */
+  include?: string[];
+
+  /**
+   * Globs of files and directories to leave out when searching a directory
+   */
+  exclude?: string[];
+}
+
+/**
+ * A path to load test cases from, optionally narrowed to one test case
+ */
+export interface TestCaseSelector {
+  /**
+   * The path of the directory or file
+   */
+  path: string;
+
+  /**
+   * The title of the test case to load from the file, if only one is wanted
+   */
+  title?: string;
+}
+
+/**
+ * State of a recursive search for test case files
+ */
+interface FileSearch {
+  /**
+   * The directory being searched, which include and exclude globs are
+   * relative to
+   */
+  root: string;
+
+  /**
+   * The real paths of the directories searched so far, mapped to the path
+   * they were searched via
+   */
+  visited: Map<string, string>;
+
+  /**
+   * Receives problems that do not stop the search
+   */
+  onWarning: (warning: LoadError) => void;
+}
+
+/**
+ * The file and line a line of expanded content was read from
+ */
+interface SourceLine {
+  /**
+   * The path of the file that holds the line
+   */
+  filePath: string;
+
+  /**
+   * The 1-based line number in that file
+   */
+  line: number;
+
+  /**
+   * The text of the line
+   */
+  text: string;
+}
+
+/**
+ * An error or warning encountered while loading test cases
+ */
+export interface LoadError {
+  /**
+   * The file path where the problem occurred. For problems inside an
+   * included file, this is the included file.
+   */
+  filePath: string;
+
+  /**
+   * The error message
+   */
+  message: string;
+
+  /**
+   * The 1-based line of the error, if known
+   */
+  line?: number;
+
+  /**
+   * The 1-based column of the error, if known
+   */
+  column?: number;
+
+  /**
+   * The text of the offending line, if known
+   */
+  source?: string;
+}
 
 /**
  * Result of loading test cases
@@ -15,33 +196,75 @@ export interface LoadResult {
   /**
    * Errors encountered during loading
    */
-  errors: {
-    /**
-     * The file path where the error occurred
-     */
-    filePath: string;
-
-    /**
-     * The error message
-     */
-    message: string;
-  }[];
+  errors: LoadError[];
+
+  /**
+   * Warnings about suspicious but valid test cases
+   */
+  warnings: LoadError[];
+}
+
+/**
+ * Formats a load error as `file:line:column: message`, followed by the
+ * offending line and a caret under the column when they are known
+ * @param error The load error to format
+ * @returns The formatted error
+ */
+export function formatLoadError(error: LoadError): string {
+  if (error.line === undefined) {
+    return `${error.filePath}: ${error.message}`;
+  }
+
+  const column = error.column ?? 1;
+  const header = `${error.filePath}:${error.line}:${column}: ${error.message}`;
+  if (error.source === undefined) {
+    return header;
+  }
+
+  const gutter = ' '.repeat(String(error.line).length);
+  return [
+    header,
+    ` ${error.line} | ${error.source}`,
+    ` ${gutter} | ${' '.repeat(column - 1)}^`,
+  ].join('\n');
 }
 
 /**
  * Loader for test case files
  */
 export class TestCaseLoader {
-  private parser: Parser;
+  private parsers: Record<string, TestCaseFileParser>;
   private rootDirectory: string;
+  private directoryMetadata = new Map<string, Promise<TestCaseMetadata>>();
+  private include: string[];
+  private exclude: string[];
 
-  constructor(rootDirectory: string = process.cwd()) {
-    this.parser = new Parser();
+  constructor(
+    rootDirectory: string = process.cwd(),
+    options: LoaderOptions = {},
+  ) {
+    const textParser = new Parser(new RoleRegistry(options.roleAliases));
+    const yamlParser = new YamlParser();
+    this.parsers = {
+      '.txt': textParser,
+      '.md': textParser,
+      '.json': new JsonParser('json'),
+      '.jsonl': new JsonParser('jsonl'),
+      '.yaml': yamlParser,
+      '.yml': yamlParser,
+      '.csv': new CsvParser(options.csvColumns),
+    };
     this.rootDirectory = rootDirectory;
+    this.include = options.include ?? [];
+    this.exclude = options.exclude ?? [];
   }
 
   /**
    * Loads test cases from a directory
+   *
+   * Files that other files reference through `include:` or `data:` are
+   * treated as shared fragments and are not loaded as test cases themselves.
+   *
    * @param directoryPath The path to the directory containing test case files
    * @param stopOnError Whether to stop processing files after the first error (default: true)
    * @returns Promise that resolves with the load result
@@ -49,63 +272,255 @@ export class TestCaseLoader {
   public async loadFromDirectory(
     directoryPath: string,
     stopOnError: boolean = true,
+  ): Promise<LoadResult> {
+    return this.loadFromPaths([directoryPath], stopOnError);
+  }
+
+  /**
+   * Loads test cases from directories and individual files
+   *
+   * Directories are searched as in {@link loadFromDirectory}. Files named
+   * explicitly are always loaded, even if an include or exclude glob or an
+   * ignore file would leave them out of a directory search. A file path can
+   * be followed by `#` and a test case title to load only that test case.
+   *
+   * @example
+   * loader.loadFromPaths(['tests/smoke', 'tests/weather.txt#Weather in Paris'])
+   *
+   * @param paths The paths of the directories and files to load, or `file#Title` selectors
+   * @param stopOnError Whether to stop processing files after the first error (default: true)
+   * @returns Promise that resolves with the load result
+   */
+  public async loadFromPaths(
+    paths: string[],
+    stopOnError: boolean = true,
   ): Promise<LoadResult> {
     const result: LoadResult = {
       testCases: [],
       errors: [],
+      warnings: [],
     };
 
-    try {
-      const files = await this.getTestFiles(directoryPath);
+    // A file found through several of the paths is only loaded once, with
+    // all of its test cases unless every path selects some by title
+    const files = new Map<string, { file: string; titles?: Set<string> }>();
+    for (const selector of paths) {
+      const { path, title } = parseTestCaseSelector(selector);
+      try {
+        let found = [path];
+        if (await this.isDirectory(path)) {
+          if (title !== undefined) {
+            throw new Error(
+              `Cannot select a test case by title in a directory: ${selector}`,
+            );
+          }
+          found = await this.findTestFiles(path, (warning) =>
+            result.warnings.push(warning),
+          );
+        }
+        for (const file of found) {
+          const previous = files.get(resolve(file));
+          const titles =
+            title === undefined || (previous && !previous.titles)
+              ? undefined
+              : new Set([...(previous?.titles ?? []), title]);
+          files.set(resolve(file), { file: previous?.file ?? file, titles });
+        }
+      } catch (error) {
+        // If we can't read the path, add it as an error
+        result.errors.push({
+          filePath: path,
+          message:
+            error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+        if (stopOnError) {
+          return result;
+        }
+      }
+    }
 
-      for (const file of files) {
-        try {
-          const testCases = await this.loadFile(file);
-          result.testCases.push(...testCases);
-        } catch (error) {
-          result.errors.push({
-            filePath: file,
-            message:
-              error instanceof Error ? error.message : 'Unknown error occurred',
-          });
-          if (stopOnError) {
-            return result;
+    const idFiles = new Map<string, string>();
+    for (const { file, titles } of files.values()) {
+      try {
+        const loaded = await this.loadFile(file, (warning) =>
+          result.warnings.push(warning),
+        );
+        const testCases = titles ? selectByTitle(loaded, titles, file) : loaded;
+
+        // Keep the first test case with an ID so results stay comparable
+        // across runs, and report the others
+        let hasDuplicates = false;
+        for (const testCase of testCases) {
+          const firstFile = idFiles.get(testCase.id);
+          if (firstFile !== undefined) {
+            result.errors.push({
+              filePath: file,
+              message: `Duplicate test case ID: ${testCase.id} (already defined in ${firstFile})`,
+            });
+            hasDuplicates = true;
+            continue;
           }
-          // Continue processing remaining files if stopOnError is false
+          idFiles.set(testCase.id, file);
+          result.testCases.push(testCase);
         }
+        if (hasDuplicates && stopOnError) {
+          return result;
+        }
+      } catch (error) {
+        result.errors.push(await this.toLoadError(error, file));
+        if (stopOnError) {
+          return result;
+        }
+        // Continue processing remaining files if stopOnError is false
       }
-    } catch (error) {
-      // If we can't read the directory, add it as an error
-      result.errors.push({
-        filePath: directoryPath,
-        message:
-          error instanceof Error ? error.message : 'Unknown error occurred',
-      });
     }
 
     return result;
   }
 
+  /**
+   * Finds the test case files in a directory, recursively
+   *
+   * Files that other files reference through `include:`, `data:`, `tools:`
+   * or as attachments are shared fragments rather than test case files, so
+   * they are left out,
+   * as are files that do not match the include globs or that match an
+   * exclude glob or a pattern of an ignore file. Symbolic links are
+   * followed, but a directory is only searched once, so links that point
+   * back up the tree do not loop.
+   *
+   * @param directoryPath The path to the directory
+   * @param onWarning Receives problems that do not stop the search, such as broken links
+   * @returns Promise that resolves with the paths of the test case files
+   * @throws Error if the directory cannot be read
+   */
+  public async findTestFiles(
+    directoryPath: string,
+    onWarning: (warning: LoadError) => void = () => {},
+  ): Promise<string[]> {
+    // Ignore files of the directories above the searched one apply as well
+    const parents = this.getDirectoryChain(resolve(directoryPath)).slice(0, -1);
+    const rules: IgnoreRule[] = [];
+    for (const parent of parents) {
+      rules.push(...(await this.readIgnoreFile(parent)));
+    }
+
+    const files = await this.getTestFiles(directoryPath, rules, {
+      root: resolve(directoryPath),
+      visited: new Map(),
+      onWarning,
+    });
+    const referencedFiles = await this.getReferencedFiles(files, directoryPath);
+    return files.filter((file) => !referencedFiles.has(resolve(file)));
+  }
+
+  /**
+   * Describes an error thrown while loading a file, with the offending line
+   * @param error The caught error
+   * @param filePath The path of the file that was being loaded
+   * @returns Promise that resolves with the load error
+   */
+  private async toLoadError(
+    error: unknown,
+    filePath: string,
+  ): Promise<LoadError> {
+    const loadError: LoadError = {
+      filePath: (error instanceof ParseError && error.filePath) || filePath,
+      message:
+        error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+    if (!(error instanceof ParseError) || error.lineNumber === undefined) {
+      return loadError;
+    }
+
+    loadError.line = error.lineNumber;
+    loadError.column = error.column;
+    try {
+      const lines = (await readFile(loadError.filePath, 'utf-8')).split('\n');
+      loadError.source = lines[error.lineNumber - 1]?.replace(/\r$/, '');
+    } catch {
+      // The position is still useful without the offending line
+    }
+    return loadError;
+  }
+
   /**
    * Gets all test files from a directory recursively
    * @param directoryPath The path to the directory
+   * @param rules The rules of the ignore files of the parent directories
+   * @param search The state of the search
    * @returns Promise that resolves with an array of file paths
    * @throws Error if the directory cannot be read
    */
-  private async getTestFiles(directoryPath: string): Promise<string[]> {
+  private async getTestFiles(
+    directoryPath: string,
+    rules: IgnoreRule[],
+    search: FileSearch,
+  ): Promise<string[]> {
     try {
       const files: string[] = [];
+      search.visited.set(await realpath(directoryPath), directoryPath);
       const entries = await readdir(directoryPath, { withFileTypes: true });
+      const directoryRules = [
+        ...rules,
+        ...(await this.readIgnoreFile(resolve(directoryPath))),
+      ];
 
       for (const entry of entries) {
         const fullPath = join(directoryPath, entry.name);
+        let isDirectory = entry.isDirectory();
+        let isFile = entry.isFile();
+
+        if (entry.isSymbolicLink()) {
+          try {
+            const target = await stat(fullPath);
+            isDirectory = target.isDirectory();
+            isFile = target.isFile();
+          } catch {
+            search.onWarning({
+              filePath: fullPath,
+              message: 'Skipped broken symbolic link',
+            });
+            continue;
+          }
+        }
+
+        const searchPath = toGlobPath(relative(search.root, fullPath));
+        if (
+          isIgnored(
+            toGlobPath(resolve(fullPath)),
+            isDirectory,
+            directoryRules,
+          ) ||
+          this.exclude.some((glob) => matchesGlob(searchPath, glob))
+        ) {
+          continue;
+        }
 
-        if (entry.isDirectory()) {
-          const subFiles = await this.getTestFiles(fullPath);
+        if (isDirectory) {
+          const target = await realpath(fullPath);
+          const searchedVia = search.visited.get(target);
+          if (searchedVia !== undefined) {
+            // A real directory is skipped too if a link reached it first
+            search.onWarning({
+              filePath: fullPath,
+              message: entry.isSymbolicLink()
+                ? `Skipped symbolic link to ${target}, which is already searched via ${searchedVia}`
+                : `Skipped directory, which is already searched via ${searchedVia}`,
+            });
+            continue;
+          }
+          const subFiles = await this.getTestFiles(
+            fullPath,
+            directoryRules,
+            search,
+          );
           files.push(...subFiles);
         } else if (
-          entry.isFile() &&
-          (extname(entry.name) === '.txt' || extname(entry.name) === '.md')
+          isFile &&
+          extname(entry.name) in this.parsers &&
+          (this.include.length === 0 ||
+            this.include.some((glob) => matchesGlob(searchPath, glob)))
         ) {
           files.push(fullPath);
         }
@@ -121,15 +536,535 @@ export class TestCaseLoader {
     }
   }
 
+  /**
+   * Checks whether a path to load is a directory
+   * @param path The path of a directory or file
+   * @returns Promise that resolves with true for a directory
+   * @throws Error if the path does not exist
+   */
+  private async isDirectory(path: string): Promise<boolean> {
+    try {
+      return (await stat(path)).isDirectory();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Cannot read path: ${path}. ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Reads the ignore file of a directory
+   * @param directoryPath The absolute path of the directory
+   * @returns Promise that resolves with the rules of the file (empty if none)
+   */
+  private async readIgnoreFile(directoryPath: string): Promise<IgnoreRule[]> {
+    let content: string;
+    try {
+      content = await readFile(join(directoryPath, IGNORE_FILE), 'utf-8');
+    } catch {
+      return [];
+    }
+    return parseIgnoreFile(content, toGlobPath(directoryPath));
+  }
+
+  /**
+   * Gets the files referenced by `include:` directives, `data:` or `tools:`
+   * keys and attachments, including those of the directory settings files
+   * @param files The test files to scan
+   * @param directoryPath The directory the test files were found in
+   * @returns Promise that resolves with the absolute paths of referenced files
+   */
+  private async getReferencedFiles(
+    files: string[],
+    directoryPath: string,
+  ): Promise<Set<string>> {
+    const referenced = new Set<string>();
+    const settingsFiles = new Set<string>();
+    const root = resolve(directoryPath);
+    for (const file of files) {
+      let directory = resolve(dirname(file));
+      while (!settingsFiles.has(join(directory, DIRECTORY_SETTINGS_FILE))) {
+        settingsFiles.add(join(directory, DIRECTORY_SETTINGS_FILE));
+        if (directory === root || dirname(directory) === directory) break;
+        directory = dirname(directory);
+      }
+    }
+
+    for (const settingsFile of settingsFiles) {
+      let metadata: TestCaseMetadata;
+      try {
+        metadata = await this.loadDirectoryMetadata(dirname(settingsFile));
+      } catch {
+        // Invalid settings files are reported when test cases are loaded
+        continue;
+      }
+      for (const path of [metadata.data, metadata.tools]) {
+        if (path) {
+          referenced.add(resolve(dirname(settingsFile), path));
+        }
+      }
+    }
+
+    for (const file of files) {
+      const extension = extname(file);
+      if (!REFERENCING_EXTENSIONS.has(extension)) {
+        continue;
+      }
+
+      // Read and parse the file the way it is loaded, so that only actual
+      // directives, front-matter and attachments count, not message text
+      let lines: SourceLine[];
+      let testCases: TestCase[];
+      try {
+        lines = TEXT_EXTENSIONS.has(extension)
+          ? await this.readWithIncludes(file, [], undefined, (includedPath) =>
+              referenced.add(includedPath),
+            )
+          : toSourceLines(await readFile(file, 'utf-8'), file);
+        const { baseName, hierarchicalId } = this.getTestCaseInfo(file);
+        testCases = this.parsers[extension].parseMultiple(
+          lines.map((line) => line.text).join('\n'),
+          baseName,
+          hierarchicalId,
+          {},
+          () => {},
+        );
+      } catch {
+        // Invalid files are reported when they are loaded
+        continue;
+      }
+
+      for (const testCase of testCases) {
+        const paths = [
+          testCase.metadata?.data,
+          testCase.metadata?.tools,
+          ...testCase.messageBlocks.flatMap((block) =>
+            (block.attachments ?? []).map((attachment) => attachment.path),
+          ),
+        ];
+        for (const path of paths) {
+          if (path) {
+            referenced.add(resolve(dirname(file), path));
+          }
+        }
+      }
+    }
+
+    return referenced;
+  }
+
   /**
    * Loads test cases from a single file
    * @param filePath The path to the test case file
+   * @param onWarning Receives warnings about suspicious constructs (logged by the parser by default)
+   * @returns Promise that resolves with an array of parsed test cases
+   * @throws ParseError located in the file (or included file) that holds the offending line
+   */
+  public async loadFile(
+    filePath: string,
+    onWarning?: (warning: LoadError) => void,
+  ): Promise<TestCase[]> {
+    const testCases = await this.parseFile(filePath, onWarning);
+    const expanded = await this.expandDataFiles(testCases, filePath);
+    await this.loadToolFiles(expanded, filePath);
+    return this.loadAttachments(expanded, filePath);
+  }
+
+  /**
+   * Parses the test cases of a single file with their inherited metadata,
+   * without reading the data, tool and attachment files they reference
+   * @param filePath The path to the test case file
+   * @param onWarning Receives warnings about suspicious constructs (logged by the parser by default)
+   * @param content The content to parse in place of the file content
    * @returns Promise that resolves with an array of parsed test cases
+   * @throws ParseError located in the file (or included file) that holds the offending line
    */
-  public async loadFile(filePath: string): Promise<TestCase[]> {
-    const content = await readFile(filePath, 'utf-8');
+  public async parseFile(
+    filePath: string,
+    onWarning?: (warning: LoadError) => void,
+    content?: string,
+  ): Promise<TestCase[]> {
+    const extension = extname(filePath);
+    const parser = this.parsers[extension] ?? this.parsers['.txt'];
+    const lines = TEXT_EXTENSIONS.has(extension)
+      ? await this.readWithIncludes(filePath, [], content)
+      : toSourceLines(content ?? (await readFile(filePath, 'utf-8')), filePath);
     const { baseName, hierarchicalId } = this.getTestCaseInfo(filePath);
-    return this.parser.parseMultiple(content, baseName, hierarchicalId);
+    const defaults = await this.getInheritedMetadata(filePath);
+
+    let testCases: TestCase[];
+    try {
+      testCases = parser.parseMultiple(
+        lines.map((line) => line.text).join('\n'),
+        baseName,
+        hierarchicalId,
+        defaults,
+        onWarning &&
+          ((warning) => {
+            const source =
+              warning.lineNumber !== undefined
+                ? lines[warning.lineNumber - 1]
+                : undefined;
+            onWarning({
+              filePath: source?.filePath ?? filePath,
+              message: warning.message,
+              line: source?.line,
+              column: warning.column,
+              source: source?.text.replace(/\r$/, ''),
+            });
+          }),
+      );
+    } catch (error) {
+      // Map the position in the expanded content back to its file
+      if (error instanceof ParseError && !error.filePath) {
+        const source =
+          error.lineNumber !== undefined
+            ? lines[error.lineNumber - 1]
+            : undefined;
+        error.filePath = source?.filePath ?? filePath;
+        error.lineNumber = source?.line;
+      }
+      throw error;
+    }
+    return testCases;
+  }
+
+  /**
+   * Reads a file and splices in the lines of its `include:` directives
+   *
+   * Include paths are resolved relative to the file that declares them, and
+   * included files may include other files. Each line remembers the file and
+   * line it was read from, so that errors point at the right place.
+   *
+   * @param filePath The path to the file to read
+   * @param includeChain The files currently being included, used to detect cycles
+   * @param content The content to expand in place of the file content
+   * @param onInclude Receives the absolute path of each included file
+   * @returns Promise that resolves with the expanded lines
+   * @throws ParseError if an included file is missing or includes form a cycle
+   */
+  private async readWithIncludes(
+    filePath: string,
+    includeChain: string[] = [],
+    content?: string,
+    onInclude?: (includedPath: string) => void,
+  ): Promise<SourceLine[]> {
+    const absolutePath = resolve(filePath);
+    if (includeChain.includes(absolutePath)) {
+      throw new ParseError(
+        `Include cycle detected: ${[...includeChain, absolutePath].join(' -> ')}`,
+      );
+    }
+
+    const text = content ?? (await readFile(filePath, 'utf-8'));
+    const chain = [...includeChain, absolutePath];
+    const lines: SourceLine[] = [];
+
+    for (const line of toSourceLines(text, filePath)) {
+      const match = line.text.match(INCLUDE_LINE);
+      if (!match) {
+        lines.push(line);
+        continue;
+      }
+
+      const includePath = match[1];
+      const column = line.text.search(/\S/) + 1;
+      // Errors about the directive itself point at the directive
+      const locate = (error: ParseError): ParseError => {
+        if (!error.filePath) {
+          error.filePath = filePath;
+          error.lineNumber = line.line;
+          error.column = column;
+        }
+        return error;
+      };
+
+      if (!includePath) {
+        throw locate(
+          new ParseError(`Include directive requires a path in ${filePath}`),
+        );
+      }
+
+      const resolvedPath = resolve(dirname(absolutePath), includePath);
+      let included: SourceLine[];
+      try {
+        included = await this.readWithIncludes(
+          resolvedPath,
+          chain,
+          undefined,
+          onInclude,
+        );
+      } catch (error) {
+        if (error instanceof ParseError) {
+          throw locate(error);
+        }
+        throw locate(
+          new ParseError(
+            `Included file not found: ${includePath} (included from ${filePath})`,
+          ),
+        );
+      }
+
+      // Drop trailing blank lines so the directive expands in place
+      while (
+        included.length > 0 &&
+        !included[included.length - 1].text.trim()
+      ) {
+        included.pop();
+      }
+      onInclude?.(resolvedPath);
+      lines.push(...(included.length > 0 ? included : [{ ...line, text: '' }]));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Expands test cases that reference a `data:` file into one test case per row
+   * @param testCases The parsed test cases of a file
+   * @param filePath The path to the test case file the data paths are relative to
+   * @returns Promise that resolves with the expanded test cases
+   * @throws ParseError if a data file is missing or invalid
+   */
+  private async expandDataFiles(
+    testCases: TestCase[],
+    filePath: string,
+  ): Promise<TestCase[]> {
+    const rowsByPath = new Map<string, VariableRow[]>();
+    const expanded: TestCase[] = [];
+
+    for (const testCase of testCases) {
+      const dataFile = testCase.metadata?.data;
+      if (!dataFile) {
+        expanded.push(testCase);
+        continue;
+      }
+
+      const dataPath = resolve(dirname(filePath), dataFile);
+      let rows = rowsByPath.get(dataPath);
+      if (!rows) {
+        let content: string;
+        try {
+          content = await readFile(dataPath, 'utf-8');
+        } catch {
+          throw new ParseError(
+            `Data file not found: ${dataFile} (resolved to ${dataPath})`,
+          );
+        }
+        try {
+          rows = parseVariableFile(content, dataPath);
+        } catch (error) {
+          if (error instanceof ParseError) {
+            error.filePath = dataPath;
+          }
+          throw error;
+        }
+        rowsByPath.set(dataPath, rows);
+      }
+      expanded.push(...expandTestCase(testCase, rows));
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Adds the tool definitions of the files referenced by `tools:` metadata to
+   * test cases, in front of the tools they declare themselves
+   * @param testCases The parsed test cases of a file
+   * @param filePath The path to the test case file the tool file paths are relative to
+   * @returns Promise that resolves when the tool definitions are added
+   * @throws ParseError if a tool file is missing or invalid
+   */
+  private async loadToolFiles(
+    testCases: TestCase[],
+    filePath: string,
+  ): Promise<void> {
+    const toolsByPath = new Map<string, ToolDefinition[]>();
+
+    for (const testCase of testCases) {
+      const toolFile = testCase.metadata?.tools;
+      if (!toolFile) continue;
+
+      const toolPath = resolve(dirname(filePath), toolFile);
+      let tools = toolsByPath.get(toolPath);
+      if (!tools) {
+        let content: string;
+        try {
+          content = await readFile(toolPath, 'utf-8');
+        } catch {
+          throw new ParseError(
+            `Tool file not found: ${toolFile} (resolved to ${toolPath})`,
+          );
+        }
+        try {
+          tools = parseToolFile(content, toolPath);
+        } catch (error) {
+          if (error instanceof ParseError) {
+            error.filePath = toolPath;
+          }
+          throw error;
+        }
+        toolsByPath.set(toolPath, tools);
+      }
+      testCase.tools = mergeTools(tools, testCase.tools ?? []);
+    }
+  }
+
+  /**
+   * Reads the files attached to the messages of test cases
+   * @param testCases The parsed test cases of a file
+   * @param filePath The path to the test case file the attachment paths are relative to
+   * @returns Promise that resolves with the test cases, their attachments holding the file content
+   * @throws ParseError if an attached file is missing
+   */
+  private async loadAttachments(
+    testCases: TestCase[],
+    filePath: string,
+  ): Promise<TestCase[]> {
+    const dataByPath = new Map<string, string>();
+
+    for (const testCase of testCases) {
+      for (const block of testCase.messageBlocks) {
+        if (!block.attachments) continue;
+
+        const attachments: AttachmentContentPart[] = [];
+        for (const attachment of block.attachments) {
+          const attachmentPath = resolve(dirname(filePath), attachment.path);
+          let data = dataByPath.get(attachmentPath);
+          if (data === undefined) {
+            try {
+              data = (await readFile(attachmentPath)).toString('base64');
+            } catch {
+              throw new ParseError(
+                `Attachment not found: ${attachment.path} (resolved to ${attachmentPath})`,
+              );
+            }
+            dataByPath.set(attachmentPath, data);
+          }
+          attachments.push({ ...attachment, data });
+        }
+        block.attachments = attachments;
+      }
+    }
+
+    return testCases;
+  }
+
+  /**
+   * Gets the default metadata a file inherits from its directories
+   *
+   * Settings files are read from the root directory down to the file's own
+   * directory, so a nearer directory overrides its parents. Files outside the
+   * root directory only inherit from their own directory. The `data:` and
+   * `tools:` paths of a settings file are relative to its directory, and are
+   * rewritten relative to the test case file like the paths it declares.
+   *
+   * @param filePath The path to the test case file
+   * @returns Promise that resolves with the merged directory metadata
+   */
+  private async getInheritedMetadata(
+    filePath: string,
+  ): Promise<TestCaseMetadata> {
+    const fileDirectory = resolve(dirname(filePath));
+    const directories = this.getDirectoryChain(fileDirectory);
+
+    let metadata: TestCaseMetadata = {};
+    for (const dir of directories) {
+      const settings = { ...(await this.loadDirectoryMetadata(dir)) };
+      if (settings.data) {
+        settings.data = rebasePath(settings.data, dir, fileDirectory);
+      }
+      if (settings.tools) {
+        settings.tools = rebasePath(settings.tools, dir, fileDirectory);
+      }
+      metadata = mergeMetadata(metadata, settings);
+    }
+    return metadata;
+  }
+
+  /**
+   * Gets the directories from the root directory down to a directory
+   * @param directory The absolute path of the directory
+   * @returns The directories, starting at the root directory, or only the directory itself if it is outside the root directory
+   */
+  private getDirectoryChain(directory: string): string[] {
+    const pathFromRoot = relative(this.rootDirectory, directory);
+    const isInsideRoot =
+      !isAbsolute(pathFromRoot) &&
+      pathFromRoot !== '..' &&
+      !pathFromRoot.startsWith(`..${sep}`);
+
+    const directories = [directory];
+    while (isInsideRoot && relative(this.rootDirectory, directory) !== '') {
+      const parent = dirname(directory);
+      if (parent === directory) {
+        break;
+      }
+      directory = parent;
+      directories.unshift(directory);
+    }
+    return directories;
+  }
+
+  /**
+   * Loads the default metadata declared in a directory's settings file
+   * @param directoryPath The directory to read the settings file from
+   * @returns Promise that resolves with the declared metadata (empty if none)
+   * @throws ParseError if the settings file is invalid
+   */
+  private loadDirectoryMetadata(
+    directoryPath: string,
+  ): Promise<TestCaseMetadata> {
+    let metadata = this.directoryMetadata.get(directoryPath);
+    if (!metadata) {
+      metadata = this.readDirectorySettings(directoryPath);
+      this.directoryMetadata.set(directoryPath, metadata);
+    }
+    return metadata;
+  }
+
+  /**
+   * Reads and parses a directory settings file
+   * @param directoryPath The directory to read the settings file from
+   * @returns Promise that resolves with the declared metadata (empty if none)
+   * @throws ParseError if the settings file is invalid
+   */
+  private async readDirectorySettings(
+    directoryPath: string,
+  ): Promise<TestCaseMetadata> {
+    const settingsPath = join(directoryPath, DIRECTORY_SETTINGS_FILE);
+    let content: string;
+    try {
+      content = await readFile(settingsPath, 'utf-8');
+    } catch {
+      return {};
+    }
+
+    try {
+      const { metadata, id, body, bodyOffset } = parseFrontMatter(content);
+      if (id !== undefined) {
+        throw new ParseError(
+          'An id can only be set on a test case, not as a directory default',
+        );
+      }
+      const bodyLines = body.split('\n');
+      const unexpectedIndex = bodyLines.findIndex((line) => line.trim());
+      if (unexpectedIndex !== -1) {
+        throw new ParseError(
+          `Unrecognized line: ${bodyLines[unexpectedIndex].trim()}`,
+          bodyOffset + unexpectedIndex + 1,
+        );
+      }
+      return metadata;
+    } catch (error) {
+      const settingsError = new ParseError(
+        `Invalid settings in ${settingsPath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof ParseError ? error.lineNumber : undefined,
+        error instanceof ParseError ? error.column : undefined,
+      );
+      settingsError.filePath = settingsPath;
+      throw settingsError;
+    }
   }
 
   /**
@@ -150,3 +1085,87 @@ export class TestCaseLoader {
     return { baseName, hierarchicalId };
   }
 }
+
+/**
+ * Splits file content into lines that remember their file and line number
+ * @param content The content of the file
+ * @param filePath The path of the file
+ * @returns The lines of the file
+ */
+const toSourceLines = (content: string, filePath: string): SourceLine[] =>
+  content.split('\n').map((text, index) => ({
+    filePath,
+    line: index + 1,
+    text,
+  }));
+
+/**
+ * Rewrites a path relative to one directory as a path relative to another
+ * @param path The path, relative to `from`
+ * @param from The directory the path is relative to
+ * @param to The directory the result is relative to
+ * @returns The `/`-separated path relative to `to`
+ */
+const rebasePath = (path: string, from: string, to: string): string =>
+  toGlobPath(relative(to, resolve(from, path)));
+
+/**
+ * Converts a file system path into the `/`-separated form globs match
+ * @param path The path to convert
+ * @returns The path with `/` separators
+ */
+const toGlobPath = (path: string): string => path.split(sep).join('/');
+
+/**
+ * Splits a `file#Title` selector into the path and the test case title
+ *
+ * The path ends at the first `#`, so titles can contain `#` but paths
+ * cannot.
+ *
+ * @param selector The path, optionally followed by `#` and a title
+ * @returns The path and the title, if any
+ */
+export function parseTestCaseSelector(selector: string): TestCaseSelector {
+  const separator = selector.indexOf('#');
+  if (separator === -1) {
+    return { path: selector };
+  }
+  const title = selector.slice(separator + 1).trim();
+  return {
+    path: selector.slice(0, separator),
+    ...(title && { title }),
+  };
+}
+
+/**
+ * Keeps the test cases of a file that have one of the selected titles
+ *
+ * A title selects the test case with that title or explicit ID, including
+ * every variant expanded from its data rows.
+ *
+ * @param testCases The test cases of the file
+ * @param titles The selected titles
+ * @param filePath The path of the file, for errors
+ * @returns The selected test cases
+ * @throws Error if no test case has one of the titles
+ */
+function selectByTitle(
+  testCases: TestCase[],
+  titles: Set<string>,
+  filePath: string,
+): TestCase[] {
+  const hasTitle = (testCase: TestCase, title: string): boolean =>
+    testCase.name === title ||
+    testCase.name.startsWith(`${title}[`) ||
+    testCase.id === title ||
+    testCase.id.endsWith(`/${title}`);
+
+  for (const title of titles) {
+    if (!testCases.some((testCase) => hasTitle(testCase, title))) {
+      throw new Error(`No test case titled "${title}" in ${filePath}`);
+    }
+  }
+  return testCases.filter((testCase) =>
+    [...titles].some((title) => hasTitle(testCase, title)),
+  );
+}
@@ -0,0 +1,49 @@
+import { TestCaseMetadata } from '../core/types/message.types.js';
+
+/**
+ * Pattern for a `@skip`, `@only` or `@xfail` marker in a test case title
+ */
+const MARKER_PATTERN = /(^|\s)@(skip|only|xfail)(?=\s|$)/gi;
+
+/**
+ * Result of extracting the markers from a test case title
+ */
+export interface MarkedTitle {
+  /**
+   * The title without its markers
+   */
+  title: string;
+
+  /**
+   * The metadata flags set by the markers
+   */
+  markers: Pick<TestCaseMetadata, 'skip' | 'only' | 'xfail'>;
+}
+
+/**
+ * Extracts `@skip`, `@only` and `@xfail` markers from a test case title
+ *
+ * Markers are removed from the title so that marking a test case does not
+ * change its ID.
+ *
+ * @example
+ * extractMarkers('Refund policy @xfail')
+ * // { title: 'Refund policy', markers: { xfail: true } }
+ *
+ * @param title The title as written
+ * @returns The title without markers and the flags they set
+ */
+export function extractMarkers(title: string): MarkedTitle {
+  const markers: MarkedTitle['markers'] = {};
+  const stripped = title.replace(
+    MARKER_PATTERN,
+    (_, space: string, marker: string) => {
+      markers[marker.toLowerCase() as keyof MarkedTitle['markers']] = true;
+      return space;
+    },
+  );
+  if (Object.keys(markers).length === 0) {
+    return { title, markers };
+  }
+  return { title: stripped.replace(/\s+/g, ' ').trim(), markers };
+}
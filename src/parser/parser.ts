@@ -1,27 +1,52 @@
-import { TestCaseParser } from './tokenizer.js';
+import { SourcePosition, TestCaseParser } from './tokenizer.js';
 import {
+  ANY_TOOL_ARGS,
+  Assertion,
+  AssertionType,
   MessageRole,
   BaseMessage,
   TestCase,
+  TestCaseMetadata,
 } from '../core/types/message.types.js';
-import { roleMapper } from '../core/utils/role-mapper.js';
-import { ParseError } from './errors.js';
+import { RoleRegistry } from '../core/utils/role-registry.js';
+import {
+  ATTACHMENT_ROLES,
+  createAttachment,
+} from '../core/utils/content-parts.js';
+import { ParseError, ParseWarning, withPosition } from './errors.js';
+import { mergeMetadata, parseFrontMatter } from './front-matter.js';
+import { extractMarkers } from './markers.js';
+import { expandTestCase, VariableRow } from './variables.js';
 
 /**
  * Parser for test case text files
  */
 export class Parser {
   private parser: TestCaseParser;
+  private roles: RoleRegistry;
 
-  constructor() {
-    this.parser = new TestCaseParser();
+  /**
+   * @param roles The role names that may start a message, including configured aliases
+   */
+  constructor(roles: RoleRegistry = new RoleRegistry()) {
+    this.roles = roles;
+    this.parser = new TestCaseParser(roles);
   }
 
   /**
    * Parses multiple test cases from text
+   *
+   * A leading block that contains only front-matter sets defaults for every
+   * test case in the file. Metadata is resolved in order of precedence: the
+   * test case itself, then the file defaults, then the inherited `defaults`.
+   * Test cases with an inline variable table are expanded into one test case
+   * per row; those referencing a `data:` file are left for the loader.
+   *
    * @param text The text to parse
    * @param baseName The base name for the test cases
    * @param hierarchicalId The hierarchical ID based on folder structure
+   * @param defaults Metadata inherited from the enclosing directories
+   * @param onWarning Receives warnings about suspicious constructs (logged by default)
    * @returns Array of parsed test cases
    * @throws ParseError if parsing fails
    */
@@ -29,22 +54,46 @@ export class Parser {
     text: string,
     baseName: string,
     hierarchicalId: string,
+    defaults: TestCaseMetadata = {},
+    onWarning: (warning: ParseWarning) => void = logWarning,
   ): TestCase[] {
-    // Split the text by test case separator (---)
-    const testCaseTexts = text.split(/^---$/m).filter((t) => t.trim());
+    // Split the text by test case separator (---), remembering the number
+    // of lines before each chunk so errors point at the right line
+    const chunks: { text: string; lineOffset: number }[] = [];
+    let lineOffset = 0;
+    for (const chunk of text.split(/^---$/m)) {
+      if (chunk.trim()) {
+        chunks.push({ text: chunk, lineOffset });
+      }
+      lineOffset += countLines(chunk) - 1;
+    }
+
+    // Apply file-level defaults declared in a leading front-matter block
+    let fileDefaults = defaults;
+    const fileMetadata =
+      chunks.length > 0 ? this.parseFileMetadata(chunks[0]) : undefined;
+    if (fileMetadata) {
+      fileDefaults = mergeMetadata(defaults, fileMetadata);
+      chunks.shift();
+    }
 
-    if (testCaseTexts.length === 0) {
+    if (chunks.length === 0) {
       throw new ParseError('No test cases found in file');
     }
 
     // Only add index suffix if there are multiple test cases
-    const shouldAddIndex = testCaseTexts.length > 1;
+    const shouldAddIndex = chunks.length > 1;
+    const ids = new Set<string>();
 
-    return testCaseTexts.map((testCaseText, index) => {
-      // Extract title if present (supports both # and ## for h1 and h2)
-      const titleMatch = testCaseText.match(/^#{1,2}\s*(.+)$/m);
-      const title = titleMatch
-        ? titleMatch[1].trim()
+    return chunks.flatMap((chunk, index) => {
+      // Extract title if present (supports both # and ## for h1 and h2),
+      // without the markers it may carry
+      const titleMatch = chunk.text.match(/^#{1,2}\s*(.+)$/m);
+      const { title: markedTitle, markers } = extractMarkers(
+        titleMatch ? titleMatch[1].trim() : '',
+      );
+      const title = markedTitle
+        ? markedTitle
         : shouldAddIndex
           ? `${baseName}_${index + 1}`
           : baseName;
@@ -52,12 +101,107 @@ export class Parser {
       // Create full ID by combining hierarchical ID with title
       const fullId = `${hierarchicalId}/${title}`;
 
-      return this.parse(testCaseText, title, fullId);
+      try {
+        const { testCase, variables, id } = this.parseTemplate(
+          chunk.text,
+          title,
+          fullId,
+          chunk.lineOffset,
+          onWarning,
+        );
+        const resolved = this.applyDefaults(
+          {
+            ...testCase,
+            // An explicit ID replaces the title so that renames keep history
+            ...(id !== undefined && { id: `${hierarchicalId}/${id}` }),
+            ...(Object.keys(markers).length > 0 && {
+              metadata: mergeMetadata(testCase.metadata ?? {}, markers),
+            }),
+          },
+          fileDefaults,
+        );
+        if (variables && resolved.metadata?.data) {
+          throw new ParseError(
+            `Test case ${resolved.id} uses both an inline variable table and a data file`,
+          );
+        }
+        const testCases = variables
+          ? expandTestCase(resolved, variables)
+          : [resolved];
+
+        const duplicate = testCases.find(({ id }) => ids.has(id));
+        if (duplicate) {
+          throw new ParseError(
+            `Duplicate test case ID: ${duplicate.id}. Give the test case a different title or an explicit id`,
+          );
+        }
+        testCases.forEach(({ id }) => ids.add(id));
+        return testCases;
+      } catch (error) {
+        // Errors about the test case as a whole point at its first line
+        throw withPosition(
+          error,
+          chunk.lineOffset + countLeadingLines(chunk.text) + 1,
+        );
+      }
     });
   }
 
+  /**
+   * Parses a block that holds only front-matter into file-level metadata
+   * @param chunk The first block in the file and the number of lines before it
+   * @returns The metadata, or undefined if the block is a regular test case
+   * @throws ParseError if the front-matter is invalid
+   */
+  private parseFileMetadata(chunk: {
+    text: string;
+    lineOffset: number;
+  }): TestCaseMetadata | undefined {
+    const { text, lineOffset } = chunk;
+    if (/^#{1,2}\s*.+$/m.test(text)) {
+      return undefined;
+    }
+    const { metadata, id, body } = parseFrontMatter(
+      text.trim(),
+      lineOffset + countLeadingLines(text),
+    );
+    if (body.trim() !== '') {
+      return undefined;
+    }
+    if (id !== undefined) {
+      throw new ParseError(
+        'An id can only be set on a test case, not as a file default',
+        lineOffset + countLeadingLines(text) + 1,
+      );
+    }
+    return Object.keys(metadata).length > 0 ? metadata : undefined;
+  }
+
+  /**
+   * Applies inherited metadata to a parsed test case
+   * @param testCase The parsed test case
+   * @param defaults The metadata inherited from the file and directories
+   * @returns The test case with its effective metadata
+   */
+  private applyDefaults(
+    testCase: TestCase,
+    defaults: TestCaseMetadata,
+  ): TestCase {
+    if (Object.keys(defaults).length === 0) {
+      return testCase;
+    }
+    return {
+      ...testCase,
+      metadata: mergeMetadata(defaults, testCase.metadata ?? {}),
+    };
+  }
+
   /**
    * Parses a test case from text
+   *
+   * `{{variable}}` placeholders are kept as written; use
+   * {@link Parser.parseMultiple} to expand inline variable tables.
+   *
    * @param text The text to parse
    * @param name The name of the test case
    * @param id The unique identifier for the test case (defaults to name if not provided)
@@ -65,120 +209,238 @@ export class Parser {
    * @throws ParseError if parsing fails
    */
   public parse(text: string, name: string, id: string = name): TestCase {
-    // Remove title if present (supports both # and ## for h1 and h2)
-    const cleanText = text.replace(/^#{1,2}\s*.+$/m, '').trim();
-    const elements = this.parser.tokenize(cleanText);
+    return this.parseTemplate(text, name, id).testCase;
+  }
+
+  /**
+   * Parses a test case from text along with its inline variable table
+   * @param text The text to parse
+   * @param name The name of the test case
+   * @param id The unique identifier for the test case
+   * @param lineOffset Number of lines that precede the text in its file
+   * @param onWarning Receives warnings about suspicious constructs
+   * @returns The parsed test case, the rows of its variable table and its explicit ID, if any
+   * @throws ParseError if parsing fails
+   */
+  private parseTemplate(
+    text: string,
+    name: string,
+    id: string,
+    lineOffset = 0,
+    onWarning: (warning: ParseWarning) => void = logWarning,
+  ): { testCase: TestCase; variables?: VariableRow[]; id?: string } {
+    // Blank the title if present (supports both # and ## for h1 and h2),
+    // keeping its line so that positions still match the file
+    const untitledText = text.replace(/^#{1,2}\s*.+$/m, '');
+    const textOffset = lineOffset + countLeadingLines(untitledText);
+    const {
+      metadata,
+      variables,
+      id: explicitId,
+      body,
+      bodyOffset,
+    } = parseFrontMatter(untitledText.trim(), textOffset);
+    const { elements, positions, warnings } = this.parser.tokenizeWithPositions(
+      body.trim(),
+      textOffset + bodyOffset + countLeadingLines(body),
+    );
+    warnings.forEach(onWarning);
     const messageBlocks: BaseMessage[] = [];
+    const blockPositions: SourcePosition[] = [];
+    let position: SourcePosition | undefined;
     let currentBlock: BaseMessage | null = null;
     let currentContent: string[] = [];
+    let inAlternative = false;
+    const assertions: Assertion[] = [];
 
-    for (let i = 0; i < elements.length; i++) {
-      const element = elements[i];
+    // Stores the collected content on the current block or as an alternative
+    const saveContent = (): void => {
+      if (!currentBlock) return;
+      if (inAlternative) {
+        const alternative = currentContent.join('\n');
+        if (!alternative.trim()) {
+          throw new ParseError('Alternative reference cannot be empty');
+        }
+        (currentBlock.alternatives ??= []).push(alternative);
+        inAlternative = false;
+      } else if (currentContent.length > 0) {
+        currentBlock.content = currentContent.join('\n');
+      }
+      currentContent = [];
+    };
 
-      switch (element.type) {
-        case 'role': {
-          // Save previous block if exists
-          if (currentBlock) {
-            if (currentContent.length > 0) {
-              currentBlock.content = currentContent.join('\n');
-              currentContent = [];
+    try {
+      for (let i = 0; i < elements.length; i++) {
+        const element = elements[i];
+        position = positions[i];
+
+        switch (element.type) {
+          case 'role': {
+            // Save previous block if exists
+            if (currentBlock) {
+              saveContent();
+              messageBlocks.push(currentBlock);
             }
-            messageBlocks.push(currentBlock);
-          }
 
-          // Start new block
-          const role = this.parseRole(element.value);
-          currentBlock = {
-            role,
-            content: '',
-            toolUsages: [],
-            toolResponses: [],
-          };
-          break;
-        }
+            // Start new block
+            const role = this.parseRole(element.value);
+            currentBlock = {
+              role,
+              content: '',
+              toolUsages: [],
+              toolResponses: [],
+            };
+            blockPositions.push(position);
+            break;
+          }
 
-        case 'content': {
-          if (!currentBlock) {
-            throw new ParseError('Content found without a role');
+          case 'alternative': {
+            if (!currentBlock || currentBlock.role !== MessageRole.ASSISTANT) {
+              throw new ParseError(
+                'Alternative references must follow an assistant message',
+              );
+            }
+            saveContent();
+            inAlternative = true;
+            break;
           }
-          // Preserve content exactly as is
-          currentContent.push(element.value);
-          break;
-        }
 
-        case 'tool_use': {
-          if (!currentBlock) {
-            throw new ParseError('Tool use found without a role');
+          case 'content': {
+            if (!currentBlock) {
+              throw new ParseError('Content found without a role');
+            }
+            // Preserve content exactly as is
+            currentContent.push(element.value);
+            break;
           }
 
-          // Parse tool usage and args from the combined value
-          const toolValue = element.value;
-          const argsMatch = toolValue.match(/^(.*?)\s*args:\s*(.*)$/i);
+          case 'tool_use': {
+            if (!currentBlock) {
+              throw new ParseError('Tool use found without a role');
+            }
+            if (inAlternative) {
+              throw new ParseError(
+                'Alternative references cannot contain tool uses',
+              );
+            }
 
-          if (!argsMatch) {
-            throw new ParseError(
-              'Tool use must include args in format: "name args: {...}"',
-            );
-          }
+            // Parse tool usage and args from the combined value
+            const toolValue = element.value;
+            const argsMatch = toolValue.match(/^(.*?)\s*args:\s*(.*)$/i);
 
-          const toolName = argsMatch[1].trim();
-          const args = argsMatch[2].trim();
-
-          // Validate that args is valid JSON
-          let parsedArgs: Record<string, unknown>;
-          try {
-            const parsed = JSON.parse(args) as unknown;
-            if (typeof parsed !== 'object' || parsed === null) {
-              throw new Error('Tool args must be a valid object');
-            }
-            parsedArgs = parsed as Record<string, unknown>;
-          } catch (e: unknown) {
-            const errorMessage =
-              e instanceof Error ? e.message : 'Invalid JSON';
-            throw new ParseError(
-              `Tool args must be valid JSON: ${errorMessage}`,
-            );
+            if (!argsMatch) {
+              throw new ParseError(
+                'Tool use must include args in format: "name args: {...}"',
+              );
+            }
+
+            const toolName = argsMatch[1].trim();
+            const args = argsMatch[2].trim();
+
+            if (!currentBlock.toolUsages) {
+              currentBlock.toolUsages = [];
+            }
+
+            // `args: *` answers a call of the tool with any arguments
+            if (args === ANY_TOOL_ARGS) {
+              currentBlock.toolUsages.push({ name: toolName, args });
+              break;
+            }
+
+            // Validate that args is valid JSON
+            let parsedArgs: Record<string, unknown>;
+            try {
+              const parsed = JSON.parse(args) as unknown;
+              if (typeof parsed !== 'object' || parsed === null) {
+                throw new Error('Tool args must be a valid object');
+              }
+              parsedArgs = parsed as Record<string, unknown>;
+            } catch (e: unknown) {
+              const errorMessage =
+                e instanceof Error ? e.message : 'Invalid JSON';
+              throw new ParseError(
+                `Tool args must be valid JSON: ${errorMessage}`,
+              );
+            }
+
+            currentBlock.toolUsages.push({
+              name: toolName,
+              args: formatToolArgs(parsedArgs),
+            });
+            break;
           }
 
-          if (!currentBlock.toolUsages) {
-            currentBlock.toolUsages = [];
+          case 'tool_response': {
+            if (!currentBlock) {
+              throw new ParseError('Tool response found without a role');
+            }
+            if (inAlternative) {
+              throw new ParseError(
+                'Alternative references cannot contain tool responses',
+              );
+            }
+
+            if (!currentBlock.toolResponses) {
+              currentBlock.toolResponses = [];
+            }
+            currentBlock.toolResponses.push({ content: element.value });
+            break;
           }
-          currentBlock.toolUsages.push({
-            name: toolName,
-            args: JSON.stringify(parsedArgs).replace(/"([^"]+)":/g, '"$1": '), // Add space after colon only
-          });
-          break;
-        }
 
-        case 'tool_response': {
-          if (!currentBlock) {
-            throw new ParseError('Tool response found without a role');
+          case 'attachment': {
+            if (!currentBlock) {
+              throw new ParseError('Attachment found without a role');
+            }
+            if (inAlternative) {
+              throw new ParseError(
+                'Alternative references cannot contain attachments',
+              );
+            }
+            if (!ATTACHMENT_ROLES.has(currentBlock.role)) {
+              throw new ParseError(
+                `Attachments cannot be added to ${currentBlock.role.replace(/_/g, ' ')} messages`,
+              );
+            }
+            if (!element.value) {
+              throw new ParseError('Attachment must include a file path');
+            }
+            (currentBlock.attachments ??= []).push(
+              createAttachment(element.value),
+            );
+            break;
           }
 
-          if (!currentBlock.toolResponses) {
-            currentBlock.toolResponses = [];
+          case 'expect': {
+            assertions.push(parseAssertion(element.value));
+            break;
           }
-          currentBlock.toolResponses.push({ content: element.value });
-          break;
         }
       }
-    }
 
-    // Add the last block if exists
-    if (currentBlock) {
-      if (currentContent.length > 0) {
-        currentBlock.content = currentContent.join('\n');
+      // Add the last block if exists
+      if (currentBlock) {
+        saveContent();
+        messageBlocks.push(currentBlock);
       }
-      messageBlocks.push(currentBlock);
+    } catch (error) {
+      throw position
+        ? withPosition(error, position.line, position.column)
+        : error;
     }
 
     // Validate the test case structure
-    this.validateTestCase(messageBlocks);
+    validateMessageBlocks(messageBlocks, blockPositions);
 
     return {
-      id,
-      name,
-      messageBlocks,
+      testCase: {
+        id,
+        name,
+        messageBlocks,
+        ...(Object.keys(metadata).length > 0 && { metadata }),
+        ...(assertions.length > 0 && { assertions }),
+      },
+      variables,
+      ...(explicitId !== undefined && { id: explicitId }),
     };
   }
 
@@ -189,35 +451,127 @@ export class Parser {
    * @throws ParseError if the role is invalid
    */
   private parseRole(role: string): MessageRole {
-    try {
-      return roleMapper.toRole(role);
-    } catch {
+    const messageRole = this.roles.resolve(role);
+    if (!messageRole) {
       throw new ParseError(`Invalid role: ${role}`);
     }
+    return messageRole;
   }
+}
 
-  /**
-   * Validates the structure of a test case
-   * @param messageBlocks The message blocks to validate
-   * @throws ParseError if validation fails
-   */
-  private validateTestCase(messageBlocks: BaseMessage[]): void {
-    if (messageBlocks.length === 0) {
-      throw new ParseError('Test case must contain at least one message');
-    }
+/**
+ * Serializes tool arguments the way they are stored on a tool usage
+ * @param args The parsed tool arguments
+ * @returns The arguments as a JSON string with a space after each key
+ */
+export function formatToolArgs(args: Record<string, unknown>): string {
+  return JSON.stringify(args).replace(/"([^"]+)":/g, '"$1": '); // Add space after colon only
+}
 
-    // Validate that system messages only appear at the start
-    let foundNonSystemMessage = false;
-    for (const block of messageBlocks) {
-      if (block.role === MessageRole.SYSTEM) {
-        if (foundNonSystemMessage) {
-          throw new ParseError(
-            'System messages must appear at the start of the conversation',
-          );
-        }
-      } else {
-        foundNonSystemMessage = true;
+/**
+ * Logs a parse warning to the console
+ * @param warning The warning to log
+ */
+const logWarning = (warning: ParseWarning): void => {
+  console.warn(`Warning: ${warning.message}`);
+};
+
+/**
+ * Counts the lines of a text
+ * @param text The text
+ * @returns The number of lines, counting a trailing partial line
+ */
+const countLines = (text: string): number => text.split('\n').length;
+
+/**
+ * Counts the blank lines at the start of a text
+ * @param text The text
+ * @returns The number of lines before the first non-blank line
+ */
+const countLeadingLines = (text: string): number =>
+  countLines(text.match(/^\s*\n/)?.[0] ?? '') - 1;
+
+/**
+ * Validates the structure of a test case
+ * @param messageBlocks The message blocks to validate
+ * @param positions The position of each block in the source, if known
+ * @throws ParseError if validation fails
+ */
+export function validateMessageBlocks(
+  messageBlocks: BaseMessage[],
+  positions: SourcePosition[] = [],
+): void {
+  if (messageBlocks.length === 0) {
+    throw new ParseError('Test case must contain at least one message');
+  }
+
+  // Validate that system messages only appear at the start
+  let foundNonSystemMessage = false;
+  for (const [index, block] of messageBlocks.entries()) {
+    if (block.role === MessageRole.SYSTEM) {
+      if (foundNonSystemMessage) {
+        throw new ParseError(
+          'System messages must appear at the start of the conversation',
+          positions[index]?.line,
+          positions[index]?.column,
+        );
       }
+    } else {
+      foundNonSystemMessage = true;
+    }
+  }
+}
+
+/**
+ * Parses the value of an `expect:` line into an assertion
+ *
+ * Supported forms:
+ * - `contains "text"` / `not-contains "text"` / `equals "text"`
+ * - `regex /pattern/flags`
+ *
+ * Quotes are optional for text values; quoted values support JSON escapes.
+ *
+ * @param value The text following `expect:`
+ * @returns The parsed assertion
+ * @throws ParseError if the assertion is malformed
+ */
+export function parseAssertion(value: string): Assertion {
+  const match = value.match(/^(contains|not-contains|regex|equals)\s+(.+)$/i);
+  if (!match) {
+    throw new ParseError(
+      `Invalid assertion: "${value}". Expected "expect: <contains|not-contains|regex|equals> <value>"`,
+    );
+  }
+
+  const type = match[1].toLowerCase() as AssertionType;
+  const operand = match[2].trim();
+
+  if (type === 'regex') {
+    const regexMatch = operand.match(/^\/(.+)\/([a-z]*)$/);
+    if (!regexMatch) {
+      throw new ParseError(
+        `Regex assertion must use the form /pattern/flags: ${operand}`,
+      );
+    }
+    try {
+      new RegExp(regexMatch[1], regexMatch[2]);
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Invalid regex';
+      throw new ParseError(`Invalid regex assertion: ${errorMessage}`);
+    }
+    return {
+      type,
+      value: regexMatch[1],
+      ...(regexMatch[2] && { flags: regexMatch[2] }),
+    };
+  }
+
+  if (operand.length > 1 && operand.startsWith('"') && operand.endsWith('"')) {
+    try {
+      return { type, value: JSON.parse(operand) as string };
+    } catch {
+      throw new ParseError(`Invalid quoted value in assertion: ${operand}`);
     }
   }
+  return { type, value: operand };
 }
@@ -1,4 +1,6 @@
-import { ParseError } from './errors.js';
+import { MessageRole } from '../core/types/message.types.js';
+import { RoleRegistry } from '../core/utils/role-registry.js';
+import { ParseError, ParseWarning, withPosition } from './errors.js';
 
 /**
  * Represents an element in the test case text
@@ -7,7 +9,15 @@ export interface TestCaseElement {
   /**
    * The type of the element
    */
-  type: 'role' | 'content' | 'tool_use' | 'tool_response' | 'args';
+  type:
+    | 'role'
+    | 'alternative'
+    | 'content'
+    | 'tool_use'
+    | 'tool_response'
+    | 'args'
+    | 'expect'
+    | 'attachment';
 
   /**
    * The value of the element
@@ -15,6 +25,41 @@ export interface TestCaseElement {
   value: string;
 }
 
+/**
+ * A 1-based position in the text being parsed
+ */
+export interface SourcePosition {
+  /**
+   * The line number
+   */
+  line: number;
+
+  /**
+   * The column number
+   */
+  column: number;
+}
+
+/**
+ * Result of tokenizing text with source positions
+ */
+export interface TokenizeResult {
+  /**
+   * The test case elements, in order
+   */
+  elements: TestCaseElement[];
+
+  /**
+   * The position each element starts at, parallel to `elements`
+   */
+  positions: SourcePosition[];
+
+  /**
+   * Suspicious but valid constructs found in the text
+   */
+  warnings: ParseWarning[];
+}
+
 /**
  * Type definition for pattern handler functions
  */
@@ -36,23 +81,29 @@ export class TestCaseParser {
    * Regular expression patterns for element matching
    */
   private static readonly PATTERNS = {
-    ROLE: /^\s*(\w+):/i,
     TOOL_USE: /^tool use:/i,
     TOOL_RESPONSE: /^\s*tool response:/i,
     ARGS: /^args:/i,
+    EXPECT: /^\s*expect:/i,
+    ATTACHMENT: /^\s*attachment:/i,
   };
 
   /**
-   * Valid roles that can be used in test cases
+   * Pattern for a line that starts with a registered role name, or with any
+   * single word followed by a colon (reported as an invalid role)
    */
-  private static readonly VALID_ROLES = new Set([
-    'user',
-    'assistant',
-    'human agent',
-    'tool use',
-    'tool response',
-    'system',
-  ]);
+  private readonly rolePattern = buildRolePattern(this.roles);
+
+  /**
+   * Pattern for a line that starts an alternative reference with one of the
+   * names of the assistant role, such as `assistant (alt):`
+   */
+  private readonly alternativePattern = buildAlternativePattern(this.roles);
+
+  /**
+   * @param roles The role names that may start a message
+   */
+  constructor(private readonly roles: RoleRegistry = new RoleRegistry()) {}
 
   /**
    * Pattern handlers for different line types
@@ -89,23 +140,59 @@ export class TestCaseParser {
       },
     },
     {
-      pattern: TestCaseParser.PATTERNS.ROLE,
+      pattern: TestCaseParser.PATTERNS.EXPECT,
+      handle: (line: string, elements: TestCaseElement[]) => {
+        const match = line.match(TestCaseParser.PATTERNS.EXPECT);
+        if (!match) return;
+
+        elements.push({
+          type: 'expect',
+          value: line.substring(match[0].length).trim(),
+        });
+      },
+    },
+    {
+      pattern: TestCaseParser.PATTERNS.ATTACHMENT,
+      handle: (line: string, elements: TestCaseElement[]) => {
+        const match = line.match(TestCaseParser.PATTERNS.ATTACHMENT);
+        if (!match) return;
+
+        elements.push({
+          type: 'attachment',
+          value: line.substring(match[0].length).trim(),
+        });
+      },
+    },
+    {
+      pattern: this.alternativePattern,
       handle: (line: string, elements: TestCaseElement[]) => {
-        const match = line.match(/^\s*(\w+):/i);
+        const match = line.match(this.alternativePattern);
         if (!match) return;
 
-        const role = match[1];
-        const normalizedRole = role.toLowerCase().trim();
+        elements.push({ type: 'alternative', value: 'assistant' });
+        elements.push({
+          type: 'content',
+          value: line
+            .substring(match[0].length)
+            .replace(/^\s+/, '')
+            .replace(/[\r\n]+$/, ''),
+        });
+      },
+    },
+    {
+      pattern: this.rolePattern,
+      handle: (line: string, elements: TestCaseElement[]) => {
+        const match = line.match(this.rolePattern);
+        if (!match) return;
 
-        if (!TestCaseParser.VALID_ROLES.has(normalizedRole)) {
+        const role = match[1] ? this.roles.resolve(match[1]) : undefined;
+        if (!role) {
           throw new ParseError(
-            `Invalid message role: ${role}. Valid roles are: ${Array.from(
-              TestCaseParser.VALID_ROLES,
-            ).join(', ')}`,
+            `Invalid message role: ${match[2]}. Valid roles are: ${this.roles.names.join(', ')}`,
           );
         }
 
-        elements.push({ type: 'role', value: normalizedRole });
+        elements.push({ type: 'role', value: role });
         const content = line
           .substring(match[0].length)
           .replace(/^\s+/, '')
@@ -119,20 +206,52 @@ export class TestCaseParser {
   ];
 
   /**
-   * Parses the input text into test case elements
+   * Parses the input text into test case elements, logging any warnings
    * @param text The text to parse
    * @returns Array of test case elements
    */
   public tokenize(text: string): TestCaseElement[] {
+    const { elements, warnings } = this.tokenizeWithPositions(text);
+    for (const warning of warnings) {
+      console.warn(`Warning: ${warning.message}`);
+    }
+    return elements;
+  }
+
+  /**
+   * Parses the input text into test case elements along with the position of
+   * each element and any warnings
+   * @param text The text to parse
+   * @param lineOffset Number of lines that precede the text in its file
+   * @returns The elements and their positions
+   * @throws ParseError with the line and column of the offending line
+   */
+  public tokenizeWithPositions(text: string, lineOffset = 0): TokenizeResult {
     const lines = text.split('\n');
     const elements: TestCaseElement[] = [];
+    const positions: SourcePosition[] = [];
     let currentRole: string | null = null;
     let currentContent: string[] = [];
+    let contentStart = 0;
     let inCodeBlock = false;
     let codeBlockLines: string[] = [];
+    let codeBlockStart = 0;
+
+    // Gets the position of the first non-blank character of a line
+    const positionOf = (lineIndex: number): SourcePosition => ({
+      line: lineOffset + lineIndex + 1,
+      column: Math.max(lines[lineIndex].search(/\S/), 0) + 1,
+    });
+
+    // Adds an element that starts on the given line
+    const push = (element: TestCaseElement, lineIndex: number): void => {
+      elements.push(element);
+      positions.push(positionOf(lineIndex));
+    };
 
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+      // Trailing whitespace is only kept inside code blocks
+      const line = inCodeBlock ? lines[i] : lines[i].trimEnd();
 
       // Handle code blocks
       if (line.startsWith('```')) {
@@ -140,14 +259,15 @@ export class TestCaseParser {
           // Start of code block
           inCodeBlock = true;
           codeBlockLines = [line];
+          codeBlockStart = i;
         } else {
           // End of code block
           inCodeBlock = false;
           codeBlockLines.push(line);
-          elements.push({
-            type: 'content',
-            value: codeBlockLines.join('\n'),
-          });
+          push(
+            { type: 'content', value: codeBlockLines.join('\n') },
+            codeBlockStart,
+          );
           codeBlockLines = [];
         }
         continue;
@@ -160,33 +280,41 @@ export class TestCaseParser {
 
       if (line.trim() === '') {
         if (currentContent.length > 0) {
-          elements.push({
-            type: 'content',
-            value: currentContent.join('\n'),
-          });
+          push(
+            { type: 'content', value: currentContent.join('\n') },
+            contentStart,
+          );
           currentContent = [];
         }
         continue;
       }
 
       let handled = false;
-      let roleMatch: RegExpMatchArray | null = null;
       for (const { pattern, handle } of this.patternHandlers) {
         if (pattern.test(line)) {
           if (currentContent.length > 0) {
-            elements.push({
-              type: 'content',
-              value: currentContent.join('\n'),
-            });
+            push(
+              { type: 'content', value: currentContent.join('\n') },
+              contentStart,
+            );
             currentContent = [];
           }
-          handle(line, elements);
+          try {
+            handle(line, elements);
+          } catch (error) {
+            const { line: lineNumber, column } = positionOf(i);
+            throw withPosition(error, lineNumber, column);
+          }
+          while (positions.length < elements.length) {
+            positions.push(positionOf(i));
+          }
           handled = true;
-          if (pattern === TestCaseParser.PATTERNS.ROLE) {
-            roleMatch = line.match(/^[\s]*(\w+):/i);
-            if (roleMatch) {
-              currentRole = roleMatch[1].toLowerCase().trim();
-            }
+          if (pattern === this.alternativePattern) {
+            currentRole = 'assistant';
+          }
+          if (pattern === this.rolePattern) {
+            // The handler adds the role element followed by its content
+            currentRole = elements[elements.length - 2].value;
           }
           break;
         }
@@ -194,10 +322,16 @@ export class TestCaseParser {
 
       if (!handled) {
         if (currentRole) {
+          if (currentContent.length === 0) {
+            contentStart = i;
+          }
           currentContent.push(line);
         } else {
+          const { line: lineNumber, column } = positionOf(i);
           throw new ParseError(
             'All messages must have a role marker (e.g. "user:", "assistant:", "human agent:", "tool use:", "tool response:")',
+            lineNumber,
+            column,
           );
         }
       }
@@ -205,35 +339,80 @@ export class TestCaseParser {
 
     // Add any remaining content
     if (currentContent.length > 0) {
-      elements.push({
-        type: 'content',
-        value: currentContent.join('\n'),
-      });
+      push({ type: 'content', value: currentContent.join('\n') }, contentStart);
     }
 
     // Validate the parsed elements
-    this.validateElements(elements);
+    const warnings = this.validateElements(elements, positions);
 
-    return elements;
+    return { elements, positions, warnings };
   }
 
   /**
-   * Validates the parsed elements for common errors
+   * Validates the parsed elements for common mistakes
    * @param elements The parsed elements
-   * @throws Error if validation fails
+   * @param positions The position of each element
+   * @returns The warnings for suspicious constructs
    */
-  private validateElements(elements: TestCaseElement[]): void {
-    // Example validation: Ensure tool_use is followed by either args or tool_response
+  private validateElements(
+    elements: TestCaseElement[],
+    positions: SourcePosition[],
+  ): ParseWarning[] {
+    const warnings: ParseWarning[] = [];
+    // Ensure tool_use is followed by either args or tool_response
     for (let i = 0; i < elements.length - 1; i++) {
       if (
         elements[i].type === 'tool_use' &&
         elements[i + 1].type !== 'args' &&
         elements[i + 1].type !== 'tool_response'
       ) {
-        console.warn(
-          'Warning: tool_use should be followed by args or tool_response',
-        );
+        warnings.push({
+          message: 'tool_use should be followed by args or tool_response',
+          lineNumber: positions[i].line,
+          column: positions[i].column,
+        });
       }
     }
+    return warnings;
   }
 }
+
+/**
+ * Builds the pattern for a line that starts with a role name
+ *
+ * Registered names may span several words separated by spaces or
+ * underscores. Any other single word followed by a colon also matches, so
+ * that it can be reported as an invalid role rather than read as content.
+ *
+ * @param roles The registered role names
+ * @returns The pattern, capturing a registered name in group 1 or another word in group 2
+ */
+function buildRolePattern(roles: RoleRegistry): RegExp {
+  const names = toNamePatterns(roles.names);
+  return new RegExp(`^\\s*(?:(${names.join('|')})\\s*:|(\\w+):)`, 'i');
+}
+
+/**
+ * Builds the pattern for a line that starts an alternative reference, such
+ * as `assistant (alt):` or `bot (alt):` when `bot` is an alias of assistant
+ * @param roles The registered role names
+ * @returns The pattern
+ */
+function buildAlternativePattern(roles: RoleRegistry): RegExp {
+  const names = toNamePatterns(
+    roles.names.filter((name) => roles.resolve(name) === MessageRole.ASSISTANT),
+  );
+  return new RegExp(`^\\s*(?:${names.join('|')})\\s*\\(alt\\):`, 'i');
+}
+
+/**
+ * Turns role names into patterns whose words may be separated by spaces or
+ * underscores
+ * @param names The normalized role names
+ * @returns The patterns, longest name first so that `human agent` is not read as `human`
+ */
+function toNamePatterns(names: string[]): string[] {
+  return [...names]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.split(' ').join('[\\s_]+'));
+}
@@ -0,0 +1,108 @@
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ToolDefinition } from '../core/types/message.types.js';
+import { ParseError } from './errors.js';
+
+/**
+ * Schema for the fields of a tool definition
+ */
+const FunctionSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        /^[\w-]+$/,
+        'Tool names may only contain letters, digits, "_" and "-"',
+      ),
+    description: z.string().optional(),
+    parameters: z.record(z.unknown()).optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a tool definition, either `{ name, description, parameters }`
+ * or the OpenAI `{ type: "function", function: { ... } }` form
+ */
+export const ToolDefinitionSchema = z.union([
+  FunctionSchema,
+  z
+    .object({ type: z.literal('function'), function: FunctionSchema })
+    .strict()
+    .transform((tool) => tool.function),
+]);
+
+/**
+ * Schema for a list of tool definitions with unique names
+ */
+export const ToolDefinitionsSchema = z
+  .array(ToolDefinitionSchema)
+  .superRefine((tools, context) => {
+    const names = new Set<string>();
+    tools.forEach((tool, index) => {
+      if (names.has(tool.name)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate tool name "${tool.name}"`,
+          path: [index, 'name'],
+        });
+      }
+      names.add(tool.name);
+    });
+  });
+
+/**
+ * Schema for a tool definition file: a list of tools or `{ tools: [...] }`
+ */
+const ToolFileSchema = z.union([
+  ToolDefinitionsSchema,
+  z
+    .object({ tools: ToolDefinitionsSchema })
+    .strict()
+    .transform((file) => file.tools),
+]);
+
+/**
+ * Parses a JSON or YAML file of tool definitions
+ * @param content The content of the file
+ * @param filePath The path to the file, used in error messages
+ * @returns The tool definitions, in file order
+ * @throws ParseError if the file is malformed or a definition is invalid
+ */
+export function parseToolFile(
+  content: string,
+  filePath: string,
+): ToolDefinition[] {
+  let document: unknown;
+  try {
+    // YAML is a superset of JSON, so this reads both
+    document = parseYaml(content);
+  } catch (error) {
+    throw new ParseError(
+      `Invalid tool definitions in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const result = ToolFileSchema.safeParse(document);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ParseError(
+      `Invalid tool definitions in ${filePath} at ${issue.path.join('.') || 'root'}: ${issue.message}`,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Combines two lists of tool definitions, a definition in `override`
+ * replacing the one with the same name in `base`
+ * @param base The inherited tool definitions
+ * @param override The tool definitions declared closer to the test case
+ * @returns The combined tool definitions
+ */
+export function mergeTools(
+  base: ToolDefinition[],
+  override: ToolDefinition[],
+): ToolDefinition[] {
+  const names = new Set(override.map((tool) => tool.name));
+  return [...base.filter((tool) => !names.has(tool.name)), ...override];
+}
@@ -0,0 +1,123 @@
+import { MessageRole, TestCase } from '../core/types/message.types.js';
+import { LoadError, TestCaseLoader } from './loader.js';
+
+/**
+ * A structural problem of a parsed test case
+ */
+export interface TestCaseProblem {
+  /**
+   * The ID of the test case with the problem
+   */
+  testCaseId: string;
+
+  /**
+   * Description of the problem
+   */
+  message: string;
+}
+
+/**
+ * Result of validating test case files
+ */
+export interface ValidationResult {
+  /**
+   * Number of test cases that were parsed successfully
+   */
+  testCaseCount: number;
+
+  /**
+   * Files that could not be parsed
+   */
+  errors: LoadError[];
+
+  /**
+   * Suspicious constructs reported by the parser
+   */
+  warnings: LoadError[];
+
+  /**
+   * Structural problems of the parsed test cases
+   */
+  problems: TestCaseProblem[];
+}
+
+/**
+ * Validates test case files without running them against an agent
+ *
+ * Every file is parsed, so one malformed file does not hide problems in the
+ * others. Parsed test cases are then checked for IDs that are used more than
+ * once and for conversations that cannot be evaluated.
+ */
+export class TestCaseValidator {
+  constructor(private readonly loader: TestCaseLoader = new TestCaseLoader()) {}
+
+  /**
+   * Validates all test case files in a directory
+   * @param directoryPath The path to the directory containing test case files
+   * @returns Promise that resolves with every problem found
+   */
+  public async validateDirectory(
+    directoryPath: string,
+  ): Promise<ValidationResult> {
+    const { testCases, errors, warnings } = await this.loader.loadFromDirectory(
+      directoryPath,
+      false,
+    );
+
+    return {
+      testCaseCount: testCases.length,
+      errors,
+      warnings,
+      problems: this.validateTestCases(testCases),
+    };
+  }
+
+  /**
+   * Checks parsed test cases for structural problems
+   * @param testCases The test cases to check
+   * @returns The problems found, in test case order
+   */
+  public validateTestCases(testCases: TestCase[]): TestCaseProblem[] {
+    const problems: TestCaseProblem[] = [];
+    const idCounts = new Map<string, number>();
+    for (const testCase of testCases) {
+      idCounts.set(testCase.id, (idCounts.get(testCase.id) ?? 0) + 1);
+    }
+
+    const reportedIds = new Set<string>();
+    for (const testCase of testCases) {
+      const report = (message: string): void => {
+        problems.push({ testCaseId: testCase.id, message });
+      };
+      const { messageBlocks } = testCase;
+
+      const count = idCounts.get(testCase.id) ?? 0;
+      if (count > 1 && !reportedIds.has(testCase.id)) {
+        reportedIds.add(testCase.id);
+        report(`Test case ID is used by ${count} test cases`);
+      }
+
+      if (messageBlocks.length < 2) {
+        report('Test case must have at least two messages');
+      }
+
+      const lastBlock = messageBlocks[messageBlocks.length - 1];
+      if (lastBlock && lastBlock.role !== MessageRole.ASSISTANT) {
+        report(
+          `Test case must end with an assistant message, not ${lastBlock.role}`,
+        );
+      }
+
+      // The mock tools answer a call with the response at the same position
+      for (const block of messageBlocks) {
+        (block.toolUsages ?? []).forEach((usage, index) => {
+          if (!block.toolResponses?.[index]) {
+            report(`Tool use "${usage.name}" has no tool response`);
+          }
+        });
+      }
+    }
+
+    return problems;
+  }
+}
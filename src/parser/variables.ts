@@ -0,0 +1,215 @@
+import { extname } from 'path';
+import { z } from 'zod';
+import { TestCase } from '../core/types/message.types.js';
+import { parseCsvRecords } from './csv.js';
+import { ParseError } from './errors.js';
+
+/**
+ * Values for the `{{variable}}` placeholders of one expanded test case
+ */
+export type VariableRow = Record<string, string>;
+
+/**
+ * Pattern for a `{{variable}}` placeholder
+ */
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Schema for JSON data files: an array of flat objects
+ */
+const VariableFileSchema = z.array(
+  z.record(z.union([z.string(), z.number(), z.boolean()])),
+);
+
+/**
+ * Parses an inline Markdown table into variable rows
+ *
+ * @example
+ * | city   | temperature |
+ * |--------|-------------|
+ * | Paris  | 18°C        |
+ * | London | 15°C        |
+ *
+ * @param lines The table lines, starting with the header row
+ * @returns Array of variable rows keyed by column name
+ * @throws ParseError if the table is malformed, with the line number within the table
+ */
+export function parseVariableTable(lines: string[]): VariableRow[] {
+  const [header, separator, ...rows] = lines.map(splitTableRow);
+
+  if (!separator || !separator.every((cell) => /^:?-+:?$/.test(cell))) {
+    throw new ParseError(
+      'Variable table must have a header row followed by a separator row',
+      2,
+    );
+  }
+
+  return rows.map((cells, index) => {
+    if (cells.length !== header.length) {
+      throw new ParseError(
+        `Variable table row ${index + 1} has ${cells.length} cells but the header has ${header.length}`,
+        index + 3,
+      );
+    }
+    return Object.fromEntries(
+      header.map((column, columnIndex) => [column, cells[columnIndex]]),
+    );
+  });
+}
+
+/**
+ * Parses a CSV or JSON data file into variable rows
+ * @param content The content of the data file
+ * @param filePath The path of the data file, used to pick the format
+ * @returns Array of variable rows
+ * @throws ParseError if the file format is unsupported or its content is invalid
+ */
+export function parseVariableFile(
+  content: string,
+  filePath: string,
+): VariableRow[] {
+  const extension = extname(filePath).toLowerCase();
+
+  try {
+    if (extension === '.csv') {
+      return parseCsvRecords(content);
+    }
+
+    if (extension === '.json') {
+      const result = VariableFileSchema.safeParse(JSON.parse(content));
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new ParseError(
+          `Expected an array of objects with string, number or boolean values (at ${issue.path.join('.') || 'root'}: ${issue.message})`,
+        );
+      }
+      return result.data.map((row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([name, value]) => [name, String(value)]),
+        ),
+      );
+    }
+  } catch (error) {
+    throw new ParseError(
+      `Invalid data file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof ParseError ? error.lineNumber : undefined,
+      error instanceof ParseError ? error.column : undefined,
+    );
+  }
+
+  throw new ParseError(
+    `Unsupported data file: ${filePath}. Use a .csv or .json file`,
+  );
+}
+
+/**
+ * Expands a template test case into one test case per variable row
+ *
+ * Placeholders are replaced in message content, tool uses, tool responses,
+ * alternative references and assertions. Each expanded test case gets a
+ * stable ID built from the template ID and its row, such as
+ * `weather/forecast[city=Paris]`.
+ *
+ * @param testCase The template test case
+ * @param rows The variable rows to expand
+ * @returns The expanded test cases, in row order
+ * @throws ParseError if there are no rows or a placeholder has no value
+ */
+export function expandTestCase(
+  testCase: TestCase,
+  rows: VariableRow[],
+): TestCase[] {
+  if (rows.length === 0) {
+    throw new ParseError(`No variable rows found for test case ${testCase.id}`);
+  }
+
+  // Expanded test cases drop the data file so that they are not expanded again
+  const metadata = testCase.metadata && { ...testCase.metadata };
+  if (metadata) delete metadata.data;
+
+  return rows.map((row) => {
+    const suffix = `[${Object.entries(row)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(',')}]`;
+
+    const substitute = (
+      text: string,
+      escape: (value: string) => string = (value) => value,
+    ): string =>
+      text.replace(PLACEHOLDER, (_placeholder, name: string) => {
+        if (!(name in row)) {
+          throw new ParseError(
+            `Undefined variable "${name}" in test case ${testCase.id}`,
+          );
+        }
+        return escape(row[name]);
+      });
+
+    return {
+      ...testCase,
+      ...(metadata && { metadata }),
+      id: `${testCase.id}${suffix}`,
+      name: `${testCase.name}${suffix}`,
+      messageBlocks: testCase.messageBlocks.map((block) => ({
+        ...block,
+        content: substitute(block.content),
+        ...(block.toolUsages && {
+          toolUsages: block.toolUsages.map((usage) => ({
+            ...usage,
+            name: substitute(usage.name),
+            args: substitute(usage.args, escapeJsonString),
+          })),
+        }),
+        ...(block.toolResponses && {
+          toolResponses: block.toolResponses.map((response) => ({
+            ...response,
+            content: substitute(response.content),
+          })),
+        }),
+        ...(block.alternatives && {
+          alternatives: block.alternatives.map((alternative) =>
+            substitute(alternative),
+          ),
+        }),
+      })),
+      ...(testCase.assertions && {
+        assertions: testCase.assertions.map((assertion) => ({
+          ...assertion,
+          value: substitute(
+            assertion.value,
+            assertion.type === 'regex' ? escapeRegExp : undefined,
+          ),
+        })),
+      }),
+    };
+  });
+}
+
+/**
+ * Splits a Markdown table row into trimmed cells, honoring `\|` escapes
+ * @param line The table row
+ * @returns The cell values
+ */
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+
+/**
+ * Escapes a value for use inside a JSON string literal
+ * @param value The value to escape
+ * @returns The escaped value without surrounding quotes
+ */
+const escapeJsonString = (value: string): string =>
+  JSON.stringify(value).slice(1, -1);
+
+/**
+ * Escapes a value for literal use inside a regular expression
+ * @param value The value to escape
+ * @returns The escaped value
+ */
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,382 @@
+import { Document, isNode, LineCounter, parseDocument } from 'yaml';
+import { z } from 'zod';
+import {
+  ANY_TOOL_ARGS,
+  BaseMessage,
+  MessageRole,
+  TestCase,
+  TestCaseMetadata,
+  ToolDefinition,
+} from '../core/types/message.types.js';
+import {
+  ATTACHMENT_ROLES,
+  createAttachment,
+} from '../core/utils/content-parts.js';
+import { ParseError, withPosition } from './errors.js';
+import { mergeMetadata, TestCaseMetadataSchema } from './front-matter.js';
+import { mergeTools, ToolDefinitionsSchema } from './tools.js';
+import { extractMarkers } from './markers.js';
+import {
+  formatToolArgs,
+  parseAssertion,
+  validateMessageBlocks,
+} from './parser.js';
+
+/**
+ * Roles accepted for YAML messages
+ */
+const ROLES = [
+  'system',
+  'developer',
+  'user',
+  'assistant',
+  'human_agent',
+] as const;
+
+/**
+ * Scalar YAML value converted to a string (YAML reads `4` as a number)
+ */
+const TextSchema = z
+  .union([z.string(), z.number(), z.boolean()])
+  .transform(String);
+
+/**
+ * Schema for a tool use on an assistant message
+ */
+const ToolUseSchema = z
+  .object({
+    name: z.string().min(1),
+    args: z.union([z.record(z.unknown()), z.string()]).default({}),
+  })
+  .strict();
+
+/**
+ * Schema for a message, either `{ role, content }` or the `{ user: content }`
+ * shorthand
+ */
+const MessageSchema = z.preprocess(
+  expandRoleShorthand,
+  z
+    .object({
+      role: z.enum(ROLES),
+      content: TextSchema.nullish(),
+      tool_uses: z.array(ToolUseSchema).optional(),
+      tool_responses: z.array(TextSchema).optional(),
+      alternatives: z.array(TextSchema).optional(),
+      attachments: z.array(z.string().min(1)).optional(),
+    })
+    .strict(),
+);
+
+/**
+ * Schema for a test case
+ */
+const TestSchema = z
+  .object({
+    id: z.union([z.string().min(1), z.number()]).optional(),
+    name: z.string().min(1).optional(),
+    metadata: TestCaseMetadataSchema.optional(),
+    messages: z.array(MessageSchema).min(1),
+    expect: z.array(z.string()).optional(),
+    tools: ToolDefinitionsSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a suite of test cases sharing metadata
+ */
+const SuiteSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    metadata: TestCaseMetadataSchema.optional(),
+    tools: ToolDefinitionsSchema.optional(),
+    tests: z.array(TestSchema).min(1),
+  })
+  .strict();
+
+/**
+ * Schema for a YAML test file: either one suite or a list of `suites`
+ */
+const FileSchema = z
+  .object({
+    suites: z.array(SuiteSchema).min(1),
+  })
+  .strict();
+
+type YamlTest = z.infer<typeof TestSchema>;
+type YamlMessage = z.infer<typeof MessageSchema>;
+
+/**
+ * Parser for test cases written in YAML
+ *
+ * @example
+ * name: weather
+ * metadata:
+ *   tags: [weather]
+ * tests:
+ *   - name: Forecast
+ *     messages:
+ *       - system: You are a weather assistant.
+ *       - user: What's the weather in Paris?
+ *       - role: assistant
+ *         content: I'll check the weather for you
+ *         tool_uses:
+ *           - name: get_weather
+ *             args: { city: Paris }
+ *         tool_responses:
+ *           - 18°C and sunny
+ *       - assistant: It is 18°C and sunny in Paris.
+ *     expect:
+ *       - contains "18°C"
+ *
+ * A file may instead hold a `suites:` list of such suites. Named suites add
+ * their name to the ID of each of their test cases.
+ */
+export class YamlParser {
+  /**
+   * Parses all test cases from a YAML file
+   * @param text The content of the file
+   * @param baseName The base name for test cases without an ID or name
+   * @param hierarchicalId The hierarchical ID based on folder structure
+   * @param defaults Metadata inherited from the enclosing directories
+   * @returns Array of parsed test cases
+   * @throws ParseError if the YAML is malformed or does not match the schema
+   */
+  public parseMultiple(
+    text: string,
+    baseName: string,
+    hierarchicalId: string,
+    defaults: TestCaseMetadata = {},
+  ): TestCase[] {
+    const lineCounter = new LineCounter();
+    const yamlDocument = parseDocument(text, { lineCounter });
+    const [syntaxError] = yamlDocument.errors;
+    if (syntaxError) {
+      throw new ParseError(
+        `Invalid YAML: ${syntaxError.message}`,
+        syntaxError.linePos?.[0].line,
+        syntaxError.linePos?.[0].col,
+      );
+    }
+
+    // Gets the position of the closest node to a path that exists in the file
+    const locate = (path: (string | number)[]): [number, number] | [] => {
+      for (let length = path.length; length >= 0; length--) {
+        const position = getNodePosition(
+          yamlDocument,
+          lineCounter,
+          path.slice(0, length),
+        );
+        if (position) {
+          return position;
+        }
+      }
+      return [];
+    };
+
+    const document: unknown = yamlDocument.toJS();
+    if (document === null || document === undefined) {
+      throw new ParseError('No test cases found in file');
+    }
+
+    const isSuiteList = typeof document === 'object' && 'suites' in document;
+    const result = FileSchema.safeParse(
+      isSuiteList ? document : { suites: [document] },
+    );
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const path = isSuiteList ? issue.path : issue.path.slice(2);
+      throw new ParseError(
+        `Invalid YAML test file at ${path.join('.') || 'root'}: ${issue.message}`,
+        ...locate(path),
+      );
+    }
+
+    const testCount = result.data.suites.reduce(
+      (count, suite) => count + suite.tests.length,
+      0,
+    );
+    let index = 0;
+
+    return result.data.suites.flatMap((suite, suiteIndex) => {
+      const suiteId = suite.name
+        ? `${hierarchicalId}/${suite.name}`
+        : hierarchicalId;
+      const suiteDefaults = mergeMetadata(defaults, suite.metadata ?? {});
+
+      return suite.tests.map((test, testIndex) => {
+        index++;
+        const fallbackName = testCount > 1 ? `${baseName}_${index}` : baseName;
+        try {
+          return this.toTestCase(
+            test,
+            fallbackName,
+            suiteId,
+            suiteDefaults,
+            suite.tools ?? [],
+          );
+        } catch (error) {
+          const testPath = isSuiteList
+            ? ['suites', suiteIndex, 'tests', testIndex]
+            : ['tests', testIndex];
+          const [line, column] = locate(testPath);
+          throw line ? withPosition(error, line, column) : error;
+        }
+      });
+    });
+  }
+
+  /**
+   * Converts a validated YAML test into a test case
+   * @param test The validated test
+   * @param fallbackName The name used when the test has neither ID nor name
+   * @param suiteId The hierarchical ID of the enclosing suite
+   * @param defaults Metadata inherited from the suite and directories
+   * @param suiteTools Tool definitions shared by the tests of the suite
+   * @returns The test case
+   * @throws ParseError if the conversation structure is invalid
+   */
+  private toTestCase(
+    test: YamlTest,
+    fallbackName: string,
+    suiteId: string,
+    defaults: TestCaseMetadata,
+    suiteTools: ToolDefinition[],
+  ): TestCase {
+    const { title, markers } = extractMarkers(test.name ?? '');
+    const name =
+      title || (test.id !== undefined ? String(test.id) : fallbackName);
+    const id = `${suiteId}/${test.id ?? name}`;
+
+    let messageBlocks: BaseMessage[];
+    let assertions;
+    try {
+      messageBlocks = test.messages.map(toMessageBlock);
+      validateMessageBlocks(messageBlocks);
+      assertions = test.expect?.map(parseAssertion);
+    } catch (error) {
+      throw new ParseError(
+        `Invalid test case ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    const metadata = mergeMetadata(
+      mergeMetadata(defaults, test.metadata ?? {}),
+      markers,
+    );
+    const tools = mergeTools(suiteTools, test.tools ?? []);
+    return {
+      id,
+      name,
+      messageBlocks,
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+      ...(assertions && assertions.length > 0 && { assertions }),
+      ...(tools.length > 0 && { tools }),
+    };
+  }
+}
+
+/**
+ * Gets the position of the node at a path of a YAML document
+ * @param document The parsed YAML document
+ * @param lineCounter The line counter the document was parsed with
+ * @param path The keys and indexes leading to the node
+ * @returns The 1-based line and column of the node, or undefined if there is no node at the path
+ */
+function getNodePosition(
+  document: Document,
+  lineCounter: LineCounter,
+  path: (string | number)[],
+): [number, number] | undefined {
+  const node: unknown =
+    path.length > 0 ? document.getIn(path, true) : document.contents;
+  if (!isNode(node) || !node.range) {
+    return undefined;
+  }
+  const { line, col } = lineCounter.linePos(node.range[0]);
+  return [line, col];
+}
+
+/**
+ * Rewrites the `{ user: content }` message shorthand as `{ role, content }`
+ * @param value The raw message value
+ * @returns The message in its explicit form
+ */
+function expandRoleShorthand(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || 'role' in value) {
+    return value;
+  }
+  const entries = Object.entries(value);
+  const roleEntry = entries.find(([key]) =>
+    (ROLES as readonly string[]).includes(key),
+  );
+  if (!roleEntry) {
+    return value;
+  }
+  return {
+    role: roleEntry[0],
+    content: roleEntry[1] as unknown,
+    ...Object.fromEntries(entries.filter(([key]) => key !== roleEntry[0])),
+  };
+}
+
+/**
+ * Converts a validated YAML message into a message block
+ * @param message The validated message
+ * @returns The message block
+ * @throws ParseError if tool uses, alternatives or attachments are used on the wrong role
+ */
+const toMessageBlock = (message: YamlMessage): BaseMessage => {
+  const hasTools =
+    (message.tool_uses?.length ?? 0) > 0 ||
+    (message.tool_responses?.length ?? 0) > 0;
+  if (message.role !== 'assistant' && (hasTools || message.alternatives)) {
+    throw new ParseError(
+      `Only assistant messages can have tool uses, tool responses or alternatives`,
+    );
+  }
+  if (
+    message.attachments &&
+    !ATTACHMENT_ROLES.has(message.role as MessageRole)
+  ) {
+    throw new ParseError(
+      `Attachments cannot be added to ${message.role} messages`,
+    );
+  }
+
+  return {
+    role: message.role as MessageRole,
+    content: message.content ?? '',
+    toolUsages: (message.tool_uses ?? []).map(({ name, args }) => {
+      if (args === ANY_TOOL_ARGS) {
+        return { name, args };
+      }
+      let parsedArgs: unknown = args;
+      if (typeof args === 'string') {
+        try {
+          parsedArgs = JSON.parse(args);
+        } catch {
+          parsedArgs = undefined;
+        }
+      }
+      if (
+        typeof parsedArgs !== 'object' ||
+        parsedArgs === null ||
+        Array.isArray(parsedArgs)
+      ) {
+        throw new ParseError(`Tool use "${name}" must have object arguments`);
+      }
+      return {
+        name,
+        args: formatToolArgs(parsedArgs as Record<string, unknown>),
+      };
+    }),
+    toolResponses: (message.tool_responses ?? []).map((content) => ({
+      content,
+    })),
+    ...(message.alternatives && { alternatives: message.alternatives }),
+    ...(message.attachments && {
+      attachments: message.attachments.map(createAttachment),
+    }),
+  };
+};
@@ -49,6 +49,16 @@ export class ReportGenerator {
       `Total: ${results.totalTests}`,
       `${COLORS.test.pass}Passed: ${results.passedTests}${COLORS.reset}`,
       `${COLORS.test.fail}Failed: ${results.failedTests}${COLORS.reset}`,
+      ...(results.filteredTests > 0
+        ? [`Filtered: ${results.filteredTests}`]
+        : []),
+      ...(results.skippedTests > 0 ? [`Skipped: ${results.skippedTests}`] : []),
+      ...(results.expectedFailures > 0
+        ? [`Expected failures: ${results.expectedFailures}`]
+        : []),
+      ...(results.unexpectedPasses > 0
+        ? [`Unexpected passes: ${results.unexpectedPasses}`]
+        : []),
       `Duration: ${results.duration.toFixed(2)}s`,
     ];
 
@@ -65,6 +75,16 @@ export class ReportGenerator {
       `Total: ${results.totalTests}`,
       `${COLORS.test.pass}Passed: ${results.passedTests}${COLORS.reset}`,
       `${COLORS.test.fail}Failed: ${results.failedTests}${COLORS.reset}`,
+      ...(results.filteredTests > 0
+        ? [`Filtered: ${results.filteredTests}`]
+        : []),
+      ...(results.skippedTests > 0 ? [`Skipped: ${results.skippedTests}`] : []),
+      ...(results.expectedFailures > 0
+        ? [`Expected failures: ${results.expectedFailures}`]
+        : []),
+      ...(results.unexpectedPasses > 0
+        ? [`Unexpected passes: ${results.unexpectedPasses}`]
+        : []),
       `Duration: ${results.duration.toFixed(2)}s`,
     ];
 
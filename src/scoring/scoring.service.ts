@@ -1,6 +1,33 @@
 import { IEmbeddingProvider } from '../embeddings/interfaces/embedding-provider.interface.js';
 import { calculateCosineSimilarity } from './utils/cosine-similarity.js';
 
+/**
+ * Strategy for combining the scores against several references
+ * - best: keep the highest score
+ * - mean: average the scores
+ */
+export type ReferenceAggregation = 'best' | 'mean';
+
+/**
+ * Result of scoring a response against several references
+ */
+export interface ReferenceScore {
+  /**
+   * The aggregated similarity score
+   */
+  score: number;
+
+  /**
+   * Index of the reference with the highest score
+   */
+  matchedReference: number;
+
+  /**
+   * The similarity score against each reference, in order
+   */
+  scores: number[];
+}
+
 /**
  * Service for calculating similarity scores between strings using embeddings
  */
@@ -40,4 +67,52 @@ export class ScoringService {
       );
     }
   }
+
+  /**
+   * Calculates the similarity score of a response against several acceptable references
+   *
+   * @param response - The response to score
+   * @param references - The acceptable references, in order of preference
+   * @param aggregation - How to combine the scores against each reference
+   * @returns Promise that resolves to the aggregated score and the best matching reference
+   * @throws Error if no references are given or embedding generation fails
+   */
+  async scoreAgainstReferences(
+    response: string,
+    references: string[],
+    aggregation: ReferenceAggregation = 'best',
+  ): Promise<ReferenceScore> {
+    if (references.length === 0) {
+      throw new Error('At least one reference is required for scoring');
+    }
+
+    try {
+      // Embed the response once and compare it with every reference
+      const [responseEmbedding, ...referenceEmbeddings] = await Promise.all(
+        [response, ...references].map((text) =>
+          this.embeddingProvider.generateEmbedding(text),
+        ),
+      );
+
+      const scores = referenceEmbeddings.map((referenceEmbedding) =>
+        calculateCosineSimilarity(
+          responseEmbedding.embedding,
+          referenceEmbedding.embedding,
+        ),
+      );
+      const matchedReference = scores.indexOf(Math.max(...scores));
+      const score =
+        aggregation === 'mean'
+          ? scores.reduce((sum, value) => sum + value, 0) / scores.length
+          : scores[matchedReference];
+
+      return { score, matchedReference, scores };
+    } catch (error) {
+      throw new Error(
+        `Failed to calculate similarity score: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
 }
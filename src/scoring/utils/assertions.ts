@@ -0,0 +1,61 @@
+import { Assertion } from '../../core/types/message.types.js';
+
+/**
+ * Outcome of evaluating a single assertion
+ */
+export interface AssertionResult extends Assertion {
+  /**
+   * Whether the response satisfied the assertion
+   */
+  passed: boolean;
+}
+
+/**
+ * Evaluates deterministic assertions against a response
+ *
+ * @param response - The agent response to check
+ * @param assertions - The assertions declared on the test case
+ * @returns The result of each assertion, in declaration order
+ */
+export function evaluateAssertions(
+  response: string,
+  assertions: Assertion[],
+): AssertionResult[] {
+  return assertions.map((assertion) => ({
+    ...assertion,
+    passed: evaluateAssertion(response, assertion),
+  }));
+}
+
+/**
+ * Formats an assertion the way it is written after `expect:`
+ *
+ * @param assertion - The assertion to format
+ * @returns The assertion as text, for example `contains "59°F"`
+ */
+export function formatAssertion(assertion: Assertion): string {
+  if (assertion.type === 'regex') {
+    return `regex /${assertion.value}/${assertion.flags ?? ''}`;
+  }
+  return `${assertion.type} ${JSON.stringify(assertion.value)}`;
+}
+
+/**
+ * Checks whether a response satisfies a single assertion
+ *
+ * @param response - The agent response to check
+ * @param assertion - The assertion to evaluate
+ * @returns True if the assertion holds
+ */
+function evaluateAssertion(response: string, assertion: Assertion): boolean {
+  switch (assertion.type) {
+    case 'contains':
+      return response.includes(assertion.value);
+    case 'not-contains':
+      return !response.includes(assertion.value);
+    case 'regex':
+      return new RegExp(assertion.value, assertion.flags).test(response);
+    case 'equals':
+      return response.trim() === assertion.value.trim();
+  }
+}
@@ -0,0 +1,210 @@
+import { isDeepStrictEqual } from 'util';
+import { ANY_TOOL_ARGS, ToolUsage } from '../../core/types/message.types.js';
+
+/**
+ * Name of the scorer that scores a turn on its tool calls alone
+ */
+export const TOOL_CALL_SCORER = 'tool-calls';
+
+/**
+ * How the arguments of a call are compared with the expected arguments
+ * - exact: the arguments are equal as JSON values
+ * - subset: every expected argument is present with an equal value; other
+ *   arguments are ignored
+ */
+export type ToolArgsMatch = 'exact' | 'subset';
+
+/**
+ * Whether the calls must be made in the order they are expected
+ * - strict: each expected call must follow the previous one
+ * - any: calls may be made in any order
+ */
+export type ToolCallOrder = 'strict' | 'any';
+
+/**
+ * Options for comparing tool calls
+ */
+export interface ToolCallOptions {
+  args?: ToolArgsMatch;
+  order?: ToolCallOrder;
+}
+
+/**
+ * Outcome of checking one expected tool call
+ */
+export interface ToolCallResult {
+  /**
+   * Name of the expected tool
+   */
+  name: string;
+
+  /**
+   * The expected arguments as a JSON string
+   */
+  expectedArgs: string;
+
+  /**
+   * The arguments of the call matched to the expected one, if any
+   */
+  actualArgs?: string;
+
+  /**
+   * Whether the tool was called as expected
+   */
+  passed: boolean;
+
+  /**
+   * Why the check failed
+   */
+  reason?: 'not called' | 'different arguments' | 'out of order';
+}
+
+/**
+ * Checks the tool calls of an agent against the expected tool usages
+ *
+ * Each expected call is matched to at most one actual call. Calls the agent
+ * makes in addition to the expected ones are ignored.
+ *
+ * @param actual - The tool calls made by the agent, in order
+ * @param expected - The tool usages recorded on the expected message
+ * @param options - How arguments and order are compared (exact and strict by default)
+ * @returns The result of each expected call, in expected order
+ */
+export function evaluateToolCalls(
+  actual: ToolUsage[],
+  expected: ToolUsage[],
+  { args = 'exact', order = 'strict' }: ToolCallOptions = {},
+): ToolCallResult[] {
+  const used = new Set<number>();
+  let lastIndex = -1;
+
+  return expected.map((call) => {
+    const candidates = actual
+      .map((actualCall, index) => ({ actualCall, index }))
+      .filter(
+        ({ actualCall, index }) =>
+          !used.has(index) && actualCall.name === call.name,
+      );
+    const matches = candidates.filter(({ actualCall }) =>
+      argsMatch(actualCall.args, call.args, args),
+    );
+    const inOrder =
+      order === 'any'
+        ? matches[0]
+        : matches.find(({ index }) => index > lastIndex);
+
+    const result = (
+      match: { actualCall: ToolUsage; index: number } | undefined,
+      reason?: ToolCallResult['reason'],
+    ): ToolCallResult => {
+      if (match) {
+        used.add(match.index);
+        lastIndex = Math.max(lastIndex, match.index);
+      }
+      return {
+        name: call.name,
+        expectedArgs: call.args,
+        ...(match && { actualArgs: match.actualCall.args }),
+        passed: !reason,
+        ...(reason && { reason }),
+      };
+    };
+
+    if (inOrder) {
+      return result(inOrder);
+    }
+    if (matches.length > 0) {
+      return result(matches[0], 'out of order');
+    }
+    if (candidates.length > 0) {
+      return result(candidates[0], 'different arguments');
+    }
+    return result(undefined, 'not called');
+  });
+}
+
+/**
+ * Scores tool call results as the fraction of expected calls that passed
+ *
+ * @param results - The results of the expected calls
+ * @returns A score between 0 and 1, 1 when no calls were expected
+ */
+export function scoreToolCalls(results: ToolCallResult[]): number {
+  if (results.length === 0) {
+    return 1;
+  }
+  return results.filter((result) => result.passed).length / results.length;
+}
+
+/**
+ * Formats a tool call result the way the call is written after `tool use:`
+ *
+ * @param result - The result to format
+ * @returns The call as text, with the failure reason if it failed
+ */
+export function formatToolCallResult(result: ToolCallResult): string {
+  const call = `${result.name} args: ${result.expectedArgs}`;
+  if (!result.reason) {
+    return call;
+  }
+  const actual =
+    result.reason === 'different arguments' && result.actualArgs
+      ? `, got ${result.actualArgs}`
+      : '';
+  return `${call} (${result.reason}${actual})`;
+}
+
+/**
+ * Compares the arguments of a call with the expected arguments
+ *
+ * @param actual - The arguments of the call as a JSON string
+ * @param expected - The expected arguments as a JSON string, or `ANY_TOOL_ARGS` for any
+ * @param mode - How the arguments are compared
+ * @returns True if the arguments match, false if they differ or are not valid JSON
+ */
+function argsMatch(
+  actual: string,
+  expected: string,
+  mode: ToolArgsMatch,
+): boolean {
+  if (expected === ANY_TOOL_ARGS) {
+    return true;
+  }
+  let actualValue: unknown;
+  let expectedValue: unknown;
+  try {
+    actualValue = JSON.parse(actual || '{}');
+    expectedValue = JSON.parse(expected || '{}');
+  } catch {
+    return false;
+  }
+  return mode === 'subset'
+    ? isSubset(actualValue, expectedValue)
+    : isDeepStrictEqual(actualValue, expectedValue);
+}
+
+/**
+ * Checks whether a value contains every property of an expected value,
+ * comparing nested objects the same way and other values for equality
+ *
+ * @param value - The value to check
+ * @param expected - The properties the value must have
+ * @returns True if the value contains the expected properties
+ */
+function isSubset(value: unknown, expected: unknown): boolean {
+  if (
+    typeof expected !== 'object' ||
+    expected === null ||
+    Array.isArray(expected)
+  ) {
+    return isDeepStrictEqual(value, expected);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(expected).every(
+    ([key, expectedProperty]) =>
+      key in value &&
+      isSubset((value as Record<string, unknown>)[key], expectedProperty),
+  );
+}
@@ -9,6 +9,10 @@ import { HeboAgent } from '../agents/implementations/hebo-agent.js';
 import { BaseMessage, MessageRole } from '../core/types/message.types.js';
 import { roleMapper } from '../core/utils/role-mapper.js';
 import { OpenAIAgent } from '../agents/implementations/openai-agent.js';
+import { ResponseRequest } from '../agents/types/openai.types.js';
+import { IAgent } from '../agents/interfaces/agent.interface.js';
+import { MockToolRegistry } from '../agents/tools/mock-tool-registry.js';
+import { ToolLoop } from '../agents/tools/tool-loop.js';
 
 /**
  * Test implementation of BaseAgent for testing abstract functionality
@@ -139,6 +143,10 @@ describe('HeboAgent', () => {
       expect(agent['store']).toBe(true);
     });
 
+    it('should not claim to make tool calls', () => {
+      expect(agent.supportsTools()).toBe(false);
+    });
+
     it('should handle custom store value', () => {
       const customConfig = { ...config, store: false };
       const customAgent = new HeboAgent(customConfig);
@@ -176,6 +184,39 @@ describe('HeboAgent', () => {
       global.fetch = originalFetch;
     });
 
+    it('should cancel the request when the signal of the input aborts', async () => {
+      await agent.initialize(config);
+      await agent.authenticate({
+        agentKey: 'test_key_123456789012345678901234567890',
+      });
+
+      // Mock fetch to only settle when the request is aborted
+      const originalFetch = global.fetch;
+      global.fetch = jest.fn().mockImplementation(
+        (_url: unknown, init: unknown) =>
+          new Promise((_resolve, reject) => {
+            (init as RequestInit).signal?.addEventListener('abort', () => {
+              const error = new Error('The operation was aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          }),
+      ) as jest.MockedFunction<typeof fetch>;
+
+      const controller = new AbortController();
+      const pending = agent.sendInput({
+        messages: [{ role: MessageRole.USER, content: 'Hello' }],
+        signal: controller.signal,
+      });
+      controller.abort();
+      const output = await pending;
+
+      expect(output.error?.message).toBe('Request was cancelled');
+
+      // Restore original fetch
+      global.fetch = originalFetch;
+    });
+
     it('should handle HTTP error responses gracefully', async () => {
       await agent.initialize(config);
       await agent.authenticate({
@@ -513,5 +554,305 @@ describe('OpenAIAgent', () => {
         }),
       );
     });
+    describe('Tools', () => {
+      it('should make tool calls', () => {
+        expect(agent.supportsTools()).toBe(true);
+      });
+
+      it('should declare tools as functions in the request', async () => {
+        await agent.initialize(config);
+        await agent.authenticate({
+          agentKey: 'sk-test123456789012345678901234567890',
+        });
+
+        const mockFetch = jest.fn().mockImplementation(() =>
+          Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: 'test-id', error: null }),
+          }),
+        );
+        global.fetch = mockFetch as unknown as typeof fetch;
+
+        await agent.sendInput({
+          messages: [{ role: MessageRole.USER, content: 'Weather in Paris?' }],
+          tools: [
+            {
+              name: 'get_weather',
+              description: 'Gets the weather for a city',
+              parameters: {
+                type: 'object',
+                properties: { city: { type: 'string' } },
+              },
+            },
+            { name: 'get_time' },
+          ],
+        });
+
+        const [, init] = mockFetch.mock.calls[0] as [string, { body: string }];
+        const body = JSON.parse(init.body) as ResponseRequest;
+        expect(body.tools).toEqual([
+          {
+            type: 'function',
+            name: 'get_weather',
+            description: 'Gets the weather for a city',
+            parameters: {
+              type: 'object',
+              properties: { city: { type: 'string' } },
+            },
+          },
+          {
+            type: 'function',
+            name: 'get_time',
+            parameters: { type: 'object', properties: {} },
+          },
+        ]);
+      });
+    });
+
+    describe('Tool Calls', () => {
+      it('should return the function calls of the response', async () => {
+        await agent.initialize(config);
+        await agent.authenticate({
+          agentKey: 'sk-test123456789012345678901234567890',
+        });
+
+        global.fetch = jest.fn().mockImplementation(() =>
+          Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({
+                id: 'test-id',
+                status: 'completed',
+                error: null,
+                output: [
+                  {
+                    type: 'function_call',
+                    id: 'fc_1',
+                    call_id: 'call_1',
+                    status: 'completed',
+                    name: 'get_weather',
+                    arguments: '{"city":"Paris"}',
+                  },
+                ],
+              }),
+          }),
+        ) as unknown as typeof fetch;
+
+        const output = await agent.sendInput({
+          messages: [{ role: MessageRole.USER, content: 'Weather in Paris?' }],
+        });
+
+        expect(output.error).toBeUndefined();
+        expect(output.toolCalls).toEqual([
+          { id: 'call_1', name: 'get_weather', args: '{"city":"Paris"}' },
+        ]);
+      });
+
+      it('should send recorded tool uses as function calls and outputs', async () => {
+        await agent.initialize(config);
+        await agent.authenticate({
+          agentKey: 'sk-test123456789012345678901234567890',
+        });
+
+        const mockFetch = jest.fn().mockImplementation(() =>
+          Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: 'test-id', error: null }),
+          }),
+        );
+        global.fetch = mockFetch as unknown as typeof fetch;
+
+        await agent.sendInput({
+          messages: [
+            { role: MessageRole.USER, content: 'Weather in Paris?' },
+            {
+              role: MessageRole.ASSISTANT,
+              content: '',
+              toolUsages: [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+              toolResponses: [{ content: '18°C' }],
+            },
+          ],
+        });
+
+        const [, init] = mockFetch.mock.calls[0] as [string, { body: string }];
+        const body = JSON.parse(init.body) as ResponseRequest;
+        expect(body.input).toEqual([
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            type: 'function_call',
+            call_id: 'call_1',
+            name: 'get_weather',
+            arguments: '{"city": "Paris"}',
+          },
+          { type: 'function_call_output', call_id: 'call_1', output: '18°C' },
+        ]);
+      });
+    });
+
+    describe('Attachments', () => {
+      it('should send attachments as typed content parts', async () => {
+        await agent.initialize(config);
+        await agent.authenticate({
+          agentKey: 'sk-test123456789012345678901234567890',
+        });
+
+        const mockFetch = jest.fn().mockImplementation(() =>
+          Promise.resolve({
+            ok: true,
+            json: () =>
+              Promise.resolve({
+                id: 'test-id',
+                object: 'response',
+                created: 1234567890,
+                model: 'gpt-3.5-turbo',
+                status: 'completed',
+                output: [
+                  {
+                    type: 'message',
+                    status: 'completed',
+                    role: 'assistant',
+                    content: [{ type: 'output_text', text: '$12.50' }],
+                  },
+                ],
+              }),
+          }),
+        );
+        global.fetch = mockFetch as unknown as typeof fetch;
+
+        await agent.sendInput({
+          messages: [
+            {
+              role: MessageRole.USER,
+              content: 'What is the total?',
+              attachments: [
+                {
+                  type: 'image',
+                  path: 'receipt.png',
+                  mimeType: 'image/png',
+                  data: 'aW1hZ2U=',
+                },
+                {
+                  type: 'file',
+                  path: 'fixtures/terms.pdf',
+                  mimeType: 'application/pdf',
+                  data: 'cGRm',
+                },
+              ],
+            },
+          ],
+        });
+
+        const [, init] = mockFetch.mock.calls[0] as [string, { body: string }];
+        const body = JSON.parse(init.body) as ResponseRequest;
+        expect(body.input).toEqual([
+          {
+            role: 'user',
+            content: [
+              { type: 'input_text', text: 'What is the total?' },
+              {
+                type: 'input_image',
+                image_url: 'data:image/png;base64,aW1hZ2U=',
+              },
+              {
+                type: 'input_file',
+                filename: 'terms.pdf',
+                file_data: 'data:application/pdf;base64,cGRm',
+              },
+            ],
+          },
+        ]);
+      });
+    });
+  });
+});
+
+describe('MockToolRegistry', () => {
+  it('should answer calls by argument before using the static response', () => {
+    const registry = new MockToolRegistry();
+    registry.addResponse('get_weather', 'Rainy', '{"city": "London"}');
+    registry.addResponse('get_weather', 'Sunny');
+
+    expect(
+      registry.respond({ name: 'get_weather', args: '{"city":"London"}' }),
+    ).toBe('Rainy');
+    expect(
+      registry.respond({ name: 'get_weather', args: '{"city":"Rome"}' }),
+    ).toBe('Sunny');
+  });
+
+  it('should reject unexpected calls', () => {
+    const registry = MockToolRegistry.fromMessages([
+      { role: MessageRole.USER, content: 'Weather in Paris?' },
+      {
+        role: MessageRole.ASSISTANT,
+        content: '',
+        toolUsages: [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+        toolResponses: [{ content: '18°C' }],
+      },
+    ]);
+
+    expect(
+      registry.respond({ name: 'get_weather', args: '{"city":"Paris"}' }),
+    ).toBe('18°C');
+    expect(() =>
+      registry.respond({ name: 'get_weather', args: '{"city":"Rome"}' }),
+    ).toThrow(
+      'Unexpected call of tool "get_weather" with args: {"city":"Rome"}',
+    );
+    expect(() => registry.respond({ name: 'get_time', args: '{}' })).toThrow(
+      'Unexpected call of unknown tool "get_time"',
+    );
+  });
+});
+
+describe('ToolLoop', () => {
+  const registry = new MockToolRegistry();
+  registry.addResponse('get_weather', '18°C');
+  const input: AgentInput = {
+    messages: [{ role: MessageRole.USER, content: 'Weather in Paris?' }],
+  };
+
+  it('should answer tool calls until the agent gives a final answer', async () => {
+    const sendInput = jest
+      .fn<(input: AgentInput) => Promise<AgentOutput>>()
+      .mockResolvedValueOnce({
+        response: 'assistant: ',
+        content: '',
+        toolCalls: [{ name: 'get_weather', args: '{"city":"Paris"}' }],
+      })
+      .mockResolvedValueOnce({
+        response: 'assistant: It is 18°C',
+        content: 'It is 18°C',
+      });
+    const agent = { sendInput } as unknown as IAgent;
+
+    const output = await new ToolLoop(agent, registry).sendInput(input);
+
+    expect(output).toEqual({
+      response: 'assistant: It is 18°C',
+      content: 'It is 18°C',
+      toolCalls: [{ name: 'get_weather', args: '{"city":"Paris"}' }],
+    });
+    expect(sendInput.mock.calls[1][0].messages[1]).toEqual({
+      role: MessageRole.ASSISTANT,
+      content: '',
+      toolUsages: [{ name: 'get_weather', args: '{"city":"Paris"}' }],
+      toolResponses: [{ content: '18°C' }],
+    });
+  });
+
+  it('should stop after the maximum number of steps', async () => {
+    const sendInput = jest
+      .fn<(input: AgentInput) => Promise<AgentOutput>>()
+      .mockResolvedValue({
+        response: '',
+        toolCalls: [{ name: 'get_weather', args: '{}' }],
+      });
+    const agent = { sendInput } as unknown as IAgent;
+
+    await expect(
+      new ToolLoop(agent, registry, 2).sendInput(input),
+    ).rejects.toThrow('Agent did not give a final answer within 2 tool steps');
+    expect(sendInput.mock.calls).toHaveLength(2);
   });
 });
@@ -128,6 +128,34 @@ describe('CLI Commands', () => {
     });
   });
 
+  describe('convert command', () => {
+    it('should show why a conversion failed without --verbose', async () => {
+      const exit = jest
+        .spyOn(process, 'exit')
+        .mockImplementation((() => undefined) as never);
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      process.argv = [
+        'node',
+        'hebo-eval',
+        'convert',
+        'missing.txt',
+        'out.jsonl',
+      ];
+
+      await import('../cli.js');
+      for (let i = 0; i < 100 && exit.mock.calls.length === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      expect(exit.mock.calls).toEqual([[1]]);
+      expect(consoleError.mock.calls.join('\n')).toContain('missing.txt');
+      exit.mockRestore();
+      consoleError.mockRestore();
+    });
+  });
+
   describe('help output', () => {
     it('should include the correct program name and description', () => {
       program
@@ -0,0 +1,332 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { convertFile } from '../converter/converter.js';
+import {
+  serializeTestCases,
+  TestCaseFormat,
+} from '../converter/serializers.js';
+import {
+  findTextFiles,
+  formatFile,
+  formatTestCaseText,
+} from '../converter/text-formatter.js';
+import { TestCase } from '../core/types/message.types.js';
+import { JsonParser } from '../parser/json-parser.js';
+import { Parser } from '../parser/parser.js';
+import { YamlParser } from '../parser/yaml-parser.js';
+
+const TEXT = `# Weather in Paris
+tags: weather, smoke
+threshold: 0.9
+system: You are a weather assistant.
+user: What's the weather in Paris?
+assistant: I'll check the weather for you
+tool use: get_weather args: {"city": "Paris", "units": "metric"}
+tool response: 18°C and sunny
+assistant: It is 18°C and sunny in Paris.
+Enjoy your day!
+assistant (alt): Paris is sunny at 18°C.
+expect: contains "18°C"
+expect: regex /sunny/i
+---
+# Greeting
+user: Hello
+assistant: Hi there`;
+
+describe('Converter', () => {
+  let original: TestCase[];
+
+  /**
+   * Parses serialized content with the parser matching the format
+   */
+  const parse = (content: string, format: TestCaseFormat): TestCase[] => {
+    switch (format) {
+      case 'text':
+        return new Parser().parseMultiple(content, 'weather', 'weather');
+      case 'yaml':
+        return new YamlParser().parseMultiple(content, 'weather', 'weather');
+      default:
+        return new JsonParser('jsonl').parseMultiple(
+          content,
+          'weather',
+          'weather',
+        );
+    }
+  };
+
+  beforeEach(() => {
+    original = new Parser().parseMultiple(TEXT, 'weather', 'weather');
+  });
+
+  it.each<TestCaseFormat>(['text', 'jsonl', 'yaml'])(
+    'should round-trip test cases through the %s format',
+    (format) => {
+      const converted = parse(serializeTestCases(original, format), format);
+      const roundTripped = parse(serializeTestCases(converted, 'text'), 'text');
+
+      expect(converted).toEqual(original);
+      expect(roundTripped).toEqual(original);
+    },
+  );
+
+  it('should keep code blocks in place and explicit ids in text', () => {
+    const text = `# Code review
+id: review-1
+user: Please review this function.
+
+It adds two numbers:
+
+\`\`\`ts
+const add = (a: number, b: number) => a + b;
+\`\`\`
+
+Thanks!
+assistant: Looks good.`;
+    const fromText = parse(text, 'text');
+    const fromJsonl = parse(serializeTestCases(fromText, 'jsonl'), 'jsonl');
+
+    expect(fromText[0].id).toBe('weather/review-1');
+    expect(fromText[0].messageBlocks[0].content).toBe(
+      'Please review this function.\nIt adds two numbers:\n```ts\nconst add = (a: number, b: number) => a + b;\n```\nThanks!',
+    );
+    expect(parse(serializeTestCases(fromText, 'text'), 'text')).toEqual(
+      fromText,
+    );
+    const jsonl = serializeTestCases(fromJsonl, 'jsonl');
+    expect(
+      serializeTestCases(
+        parse(serializeTestCases(fromJsonl, 'text'), 'text'),
+        'jsonl',
+      ),
+    ).toBe(jsonl);
+  });
+
+  it('should reject inline tool definitions when writing text', () => {
+    const [testCase] = original;
+
+    expect(() =>
+      serializeTestCases(
+        [{ ...testCase, tools: [{ name: 'get_weather', parameters: {} }] }],
+        'text',
+      ),
+    ).toThrow('declares its tools inline');
+  });
+
+  it('should write OpenAI fine-tuning records with linked tool calls', () => {
+    const [record] = serializeTestCases(original, 'openai')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { messages: unknown[] });
+
+    expect(Object.keys(record)).toEqual(['messages']);
+    expect(record.messages.slice(2, 4)).toEqual([
+      {
+        role: 'assistant',
+        content: "I'll check the weather for you",
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              arguments: '{"city": "Paris","units": "metric"}',
+            },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '18°C and sunny' },
+    ]);
+
+    const converted = parse(serializeTestCases(original, 'openai'), 'openai');
+    expect(converted.map((testCase) => testCase.messageBlocks)).toEqual(
+      original.map((testCase) =>
+        testCase.messageBlocks.map(({ alternatives: _, ...block }) => block),
+      ),
+    );
+  });
+
+  describe('convertFile', () => {
+    const tempDir = join(tmpdir(), 'hebo-eval-convert-tests');
+
+    beforeEach(async () => {
+      await mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should infer the output format from the extension', async () => {
+      const input = join(tempDir, 'weather.txt');
+      const output = join(tempDir, 'weather.yaml');
+      await writeFile(input, TEXT);
+
+      const result = await convertFile(input, output);
+
+      expect(result).toEqual({ testCases: 2, format: 'yaml' });
+      expect(
+        parse(await readFile(output, 'utf-8'), 'yaml').map((t) => t.id),
+      ).toEqual(['weather/Weather in Paris', 'weather/Greeting']);
+    });
+
+    it('should round-trip test cases expanded from a data file', async () => {
+      const input = join(tempDir, 'forecast.txt');
+      const output = join(tempDir, 'forecast.jsonl');
+      const roundTrip = join(tempDir, 'round-trip.txt');
+      await writeFile(
+        join(tempDir, 'cities.csv'),
+        'city,temp\nParis,18\nLondon,15',
+      );
+      await writeFile(
+        input,
+        `# Forecast
+data: cities.csv
+user: Weather in {{city}}?
+assistant: {{temp}}°C`,
+      );
+
+      await convertFile(input, output);
+      const result = await convertFile(output, roundTrip);
+
+      expect(result.testCases).toBe(2);
+      expect(
+        parse(await readFile(roundTrip, 'utf-8'), 'text').map((t) => t.name),
+      ).toEqual([
+        'Forecast[city=Paris,temp=18]',
+        'Forecast[city=London,temp=15]',
+      ]);
+    });
+
+    it('should reject outputs without a known format', async () => {
+      const input = join(tempDir, 'weather.txt');
+      await writeFile(input, TEXT);
+
+      await expect(
+        convertFile(input, join(tempDir, 'weather.out')),
+      ).rejects.toThrow('Cannot infer the output format');
+    });
+  });
+
+  describe('formatTestCaseText', () => {
+    const MESSY = `## Weather in Paris   
+threshold: 0.9
+tags: weather, smoke
+User:   What's the weather in Paris?  
+
+
+assistant:I'll check the weather for you
+tool use: get_weather   args: {"units":"metric","city":"Paris"}
+tool response: 18°C and sunny
+Assistant: Here is a script:
+\`\`\`python
+print("sunny")   
+\`\`\`
+expect:   contains   "18°C"
+---
+# Greeting
+user: Hello
+assistant: Hi there`;
+
+    it('should rewrite text in the canonical layout', () => {
+      expect(formatTestCaseText(MESSY)).toBe(`# Weather in Paris
+tags: weather, smoke
+threshold: 0.9
+user: What's the weather in Paris?
+
+assistant: I'll check the weather for you
+tool use: get_weather args: {"units": "metric","city": "Paris"}
+tool response: 18°C and sunny
+assistant: Here is a script:
+\`\`\`python
+print("sunny")   
+\`\`\`
+expect: contains "18°C"
+
+---
+
+# Greeting
+user: Hello
+assistant: Hi there
+`);
+    });
+
+    it('should keep the parsed test cases identical', () => {
+      const formatted = formatTestCaseText(MESSY);
+
+      expect(
+        new Parser().parseMultiple(formatted, 'weather', 'weather'),
+      ).toEqual(new Parser().parseMultiple(MESSY, 'weather', 'weather'));
+      expect(formatTestCaseText(formatted)).toBe(formatted);
+    });
+
+    it('should keep include directives in place', () => {
+      expect(
+        formatTestCaseText('include: shared/persona.txt  \nuser:Hi\n'),
+      ).toBe('include: shared/persona.txt\nuser: Hi\n');
+    });
+  });
+
+  describe('formatFile', () => {
+    const tempDir = join(tmpdir(), 'hebo-eval-format-tests');
+
+    beforeEach(async () => {
+      await mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should report unformatted files without changing them in check mode', async () => {
+      const file = join(tempDir, 'greeting.txt');
+      await writeFile(file, 'user:Hello\nassistant:Hi there');
+
+      const result = await formatFile(file, { check: true });
+
+      expect(result).toEqual({ filePath: file, changed: true });
+      expect(await readFile(file, 'utf-8')).toBe(
+        'user:Hello\nassistant:Hi there',
+      );
+    });
+
+    it('should rewrite unformatted files', async () => {
+      const file = join(tempDir, 'greeting.txt');
+      await writeFile(file, 'user:Hello\nassistant:Hi there');
+
+      await formatFile(file);
+
+      expect(await readFile(file, 'utf-8')).toBe(
+        'user: Hello\nassistant: Hi there\n',
+      );
+      expect(await formatFile(file)).toEqual({
+        filePath: file,
+        changed: false,
+      });
+    });
+  });
+
+  describe('findTextFiles', () => {
+    const tempDir = join(tmpdir(), 'hebo-eval-find-text-tests');
+
+    beforeEach(async () => {
+      await mkdir(join(tempDir, 'drafts'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should leave out the files the loader options exclude', async () => {
+      await writeFile(join(tempDir, 'greeting.txt'), 'user: Hi\nassistant: Hi');
+      await writeFile(
+        join(tempDir, 'drafts', 'farewell.txt'),
+        'user: Bye\nassistant: Bye',
+      );
+
+      expect(await findTextFiles([tempDir], { exclude: ['drafts'] })).toEqual([
+        join(tempDir, 'greeting.txt'),
+      ]);
+    });
+  });
+});
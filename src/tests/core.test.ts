@@ -1,5 +1,8 @@
 import { HeboEval } from '../core/index.js';
 import { version } from '../utils/package-info.js';
+import { MessageRole } from '../core/types/message.types.js';
+import { roleMapper } from '../core/utils/role-mapper.js';
+import { RoleRegistry } from '../core/utils/role-registry.js';
 
 describe('HeboEval', () => {
   let heboEval: HeboEval;
@@ -28,3 +31,66 @@ describe('HeboEval', () => {
     });
   });
 });
+
+describe('RoleRegistry', () => {
+  it('should resolve built-in roles regardless of case and separators', () => {
+    const registry = new RoleRegistry();
+
+    expect(registry.resolve('Human_Agent')).toBe(MessageRole.HUMAN_AGENT);
+    expect(registry.resolve('human  agent')).toBe(MessageRole.HUMAN_AGENT);
+    expect(registry.resolve('developer')).toBe(MessageRole.DEVELOPER);
+    expect(registry.resolve('robot')).toBeUndefined();
+  });
+
+  it('should resolve aliases to their target roles', () => {
+    const registry = new RoleRegistry({
+      customer: 'user',
+      bot: 'assistant',
+      'support rep': 'human agent',
+    });
+
+    expect(registry.resolve('Customer')).toBe(MessageRole.USER);
+    expect(registry.resolve('bot')).toBe(MessageRole.ASSISTANT);
+    expect(registry.resolve('support_rep')).toBe(MessageRole.HUMAN_AGENT);
+    expect(registry.names).toEqual([
+      'user',
+      'assistant',
+      'human agent',
+      'system',
+      'developer',
+      'customer',
+      'bot',
+      'support rep',
+    ]);
+  });
+
+  it('should reject aliases to unknown roles', () => {
+    expect(() => new RoleRegistry({ customer: 'client' })).toThrow(
+      'Role alias "customer" refers to unknown role "client"',
+    );
+  });
+
+  it('should reject aliases that replace reserved names', () => {
+    expect(() => new RoleRegistry({ user: 'assistant' })).toThrow(
+      'Role alias "user" is a reserved name',
+    );
+    expect(() => new RoleRegistry({ 'tool use': 'user' })).toThrow(
+      'Role alias "tool use" is a reserved name',
+    );
+    expect(() => new RoleRegistry({ owner: 'user' })).toThrow(
+      'Role alias "owner" is a reserved name',
+    );
+    expect(() => new RoleRegistry({ ToolArgs: 'user' })).toThrow(
+      'Role alias "ToolArgs" is a reserved name',
+    );
+  });
+});
+
+describe('RoleMapper', () => {
+  it('should reject unrecognized roles instead of defaulting to user', () => {
+    expect(roleMapper.toRole('tool')).toBe(MessageRole.TOOL);
+    expect(() => roleMapper.toRole('robot')).toThrow(
+      'Unrecognized role: robot',
+    );
+  });
+});
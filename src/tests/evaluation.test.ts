@@ -3,6 +3,8 @@ import { ScoringService } from '../scoring/scoring.service';
 import { IAgent } from '../agents/interfaces/agent.interface';
 import { TestCase, MessageRole } from '../core/types/message.types';
 import { EvaluationConfig } from '../evaluation/types/evaluation.types';
+import { filterTestCases } from '../evaluation/test-case-filter';
+import { TestCaseLoader } from '../parser/loader';
 import { jest } from '@jest/globals';
 
 // Mock dependencies
@@ -23,11 +25,13 @@ describe('EvaluationExecutor', () => {
     // Setup mock scoring service
     mockScoringService = {
       scoreStrings: jest.fn(),
+      scoreAgainstReferences: jest.fn(),
     } as unknown as jest.Mocked<ScoringService>;
 
     // Setup mock agent
     mockAgent = {
       sendInput: jest.fn(),
+      supportsTools: jest.fn().mockReturnValue(true),
       getConfig: jest.fn().mockReturnValue({
         provider: 'test-provider',
         model: 'test-model',
@@ -73,9 +77,325 @@ describe('EvaluationExecutor', () => {
       expect(result.error).toBeUndefined();
       expect(result.response).toBe('Hi there!');
       expect(result.executionTime).toBeGreaterThan(0);
+      expect(result.threshold).toBe(0.8);
       expect(result.testCase).toBe(mockTestCase);
     });
 
+    it('should prefer the threshold from test case metadata', async () => {
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        metadata: { threshold: 0.95 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.threshold).toBe(0.95);
+    });
+
+    it('should score against alternative references when declared', async () => {
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hey!' });
+      mockScoringService.scoreAgainstReferences.mockResolvedValue({
+        score: 0.95,
+        matchedReference: 1,
+        scores: [0.7, 0.95],
+      });
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        messageBlocks: [
+          mockTestCase.messageBlocks[0],
+          {
+            role: MessageRole.ASSISTANT,
+            content: 'Hi there!',
+            alternatives: [' Hey! '],
+          },
+        ],
+      });
+
+      expect(mockScoringService.scoreAgainstReferences.mock.calls).toEqual([
+        ['Hey!', ['Hi there!', 'Hey!'], 'best'],
+      ]);
+      expect(mockScoringService.scoreStrings.mock.calls).toHaveLength(0);
+      expect(result.success).toBe(true);
+      expect(result.score).toBe(0.95);
+      expect(result.matchedReference).toBe(1);
+    });
+
+    it('should fail when a declared assertion does not hold', async () => {
+      mockAgent.sendInput.mockResolvedValue({ response: 'As an AI, hi!' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        assertions: [
+          { type: 'contains', value: 'hi' },
+          { type: 'not-contains', value: 'As an AI' },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.score).toBe(0.9);
+      expect(result.error).toBe('Failed assertions: not-contains "As an AI"');
+      expect(result.assertions).toEqual([
+        { type: 'contains', value: 'hi', passed: true },
+        { type: 'not-contains', value: 'As an AI', passed: false },
+      ]);
+    });
+
+    it('should check assertions against the reply without its role prefix', async () => {
+      mockAgent.sendInput.mockResolvedValue({
+        response: 'assistant: 4',
+        content: '4',
+      });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        assertions: [
+          { type: 'equals', value: '4' },
+          { type: 'regex', value: '^\\d+$' },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.response).toBe('assistant: 4');
+      expect(result.assertions?.every((assertion) => assertion.passed)).toBe(
+        true,
+      );
+    });
+
+    it('should check the tool calls recorded on the expected message', async () => {
+      mockAgent.sendInput.mockResolvedValue({
+        response: 'assistant: ',
+        toolCalls: [{ name: 'get_weather', args: '{"city":"Paris"}' }],
+      });
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        metadata: { scorer: 'tool-calls' },
+        messageBlocks: [
+          mockTestCase.messageBlocks[0],
+          {
+            role: MessageRole.ASSISTANT,
+            content: '',
+            toolUsages: [{ name: 'get_weather', args: '{"city": "New York"}' }],
+          },
+        ],
+      });
+
+      expect(mockScoringService.scoreStrings.mock.calls).toHaveLength(0);
+      expect(result.success).toBe(false);
+      expect(result.score).toBe(0);
+      expect(result.error).toBe(
+        'Failed tool calls: get_weather args: {"city": "New York"} (different arguments, got {"city":"Paris"})',
+      );
+      expect(result.toolCalls).toEqual([
+        {
+          name: 'get_weather',
+          expectedArgs: '{"city": "New York"}',
+          actualArgs: '{"city":"Paris"}',
+          passed: false,
+          reason: 'different arguments',
+        },
+      ]);
+    });
+
+    it('should not expect recorded tool calls without declared tools', async () => {
+      mockAgent.sendInput.mockResolvedValue({ response: 'It is 18°C' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        messageBlocks: [
+          mockTestCase.messageBlocks[0],
+          {
+            role: MessageRole.ASSISTANT,
+            content: 'It is 18°C',
+            toolUsages: [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.toolCalls).toBeUndefined();
+    });
+
+    it('should send recorded tool steps as history to agents without tools', async () => {
+      mockAgent.supportsTools = () => false;
+      mockAgent.sendInput.mockResolvedValue({ response: 'It is 18°C' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        tools: [{ name: 'get_weather' }],
+        messageBlocks: [
+          { role: MessageRole.USER, content: 'Weather in Paris?' },
+          {
+            role: MessageRole.ASSISTANT,
+            content: '',
+            toolUsages: [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+            toolResponses: [{ content: '18°C' }],
+          },
+          { role: MessageRole.ASSISTANT, content: 'It is 18°C' },
+        ],
+      });
+
+      expect(mockAgent.sendInput.mock.calls).toHaveLength(1);
+      expect(mockAgent.sendInput.mock.calls[0][0]).toEqual({
+        messages: [
+          expect.objectContaining({ content: 'Weather in Paris?' }),
+          expect.objectContaining({ toolResponses: [{ content: '18°C' }] }),
+        ],
+      });
+      expect(result.success).toBe(true);
+      expect(result.toolCalls).toBeUndefined();
+    });
+
+    it('should fail the tool-call scorer on agents without tools', async () => {
+      mockAgent.supportsTools = () => false;
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        metadata: { scorer: 'tool-calls' },
+      });
+
+      expect(mockAgent.sendInput.mock.calls).toHaveLength(0);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'The test-provider agent cannot make tool calls, which the tool-calls scorer requires',
+      );
+    });
+
+    it('should report a missing tool call apart from the score', async () => {
+      mockAgent.sendInput.mockResolvedValue({ response: 'It is 18°C' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        tools: [{ name: 'get_weather' }],
+        messageBlocks: [
+          { role: MessageRole.USER, content: 'Weather in Paris?' },
+          {
+            role: MessageRole.ASSISTANT,
+            content: '',
+            toolUsages: [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+            toolResponses: [{ content: '18°C' }],
+          },
+          { role: MessageRole.ASSISTANT, content: 'It is 18°C' },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.score).toBe(0.9);
+      expect(result.error).toBe(
+        'Failed tool calls: get_weather args: {"city": "Paris"} (not called)',
+      );
+    });
+
+    it('should answer tool calls from the recorded tool responses', async () => {
+      mockAgent.sendInput
+        .mockResolvedValueOnce({
+          response: 'assistant: ',
+          toolCalls: [{ name: 'get_weather', args: '{"city":"Paris"}' }],
+        })
+        .mockResolvedValueOnce({ response: 'assistant: It is 18°C' });
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        tools: [{ name: 'get_weather' }],
+        messageBlocks: [
+          { role: MessageRole.USER, content: 'Weather in Paris?' },
+          {
+            role: MessageRole.ASSISTANT,
+            content: '',
+            toolUsages: [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+            toolResponses: [{ content: '18°C' }],
+          },
+          { role: MessageRole.ASSISTANT, content: 'It is 18°C' },
+        ],
+      });
+
+      expect(mockAgent.sendInput.mock.calls[0][0].messages).toHaveLength(1);
+      expect(mockAgent.sendInput.mock.calls[1][0].messages[1]).toEqual(
+        expect.objectContaining({ toolResponses: [{ content: '18°C' }] }),
+      );
+      expect(result.success).toBe(true);
+      expect(result.toolCalls).toEqual([
+        {
+          name: 'get_weather',
+          expectedArgs: '{"city": "Paris"}',
+          actualArgs: '{"city":"Paris"}',
+          passed: true,
+        },
+      ]);
+    });
+
+    it('should evaluate every assistant turn in turn-by-turn mode', async () => {
+      const executor = new EvaluationExecutor(mockScoringService, {
+        ...mockConfig,
+        turnByTurn: true,
+      });
+      mockAgent.sendInput
+        .mockResolvedValueOnce({ response: 'Hello!' })
+        .mockResolvedValueOnce({ response: 'It is sunny.' });
+      mockScoringService.scoreStrings
+        .mockResolvedValueOnce(0.9)
+        .mockResolvedValueOnce(0.5);
+      const conversation: TestCase = {
+        id: 'test-turns',
+        name: 'test-turns',
+        messageBlocks: [
+          { role: MessageRole.SYSTEM, content: 'Be brief.' },
+          { role: MessageRole.USER, content: 'Hi' },
+          { role: MessageRole.ASSISTANT, content: 'Hello!' },
+          { role: MessageRole.USER, content: 'Weather?' },
+          {
+            role: MessageRole.ASSISTANT,
+            content: 'Let me check',
+            toolUsages: [{ name: 'weather', args: '{}' }],
+            toolResponses: [{ content: 'sunny' }],
+          },
+          { role: MessageRole.ASSISTANT, content: 'It is sunny and warm.' },
+        ],
+      };
+
+      const result = await executor.executeTestCase(mockAgent, conversation);
+
+      // Each turn receives the recorded history before it
+      expect(
+        mockAgent.sendInput.mock.calls.map(([input]) => input.messages.length),
+      ).toEqual([2, 5]);
+      expect(mockScoringService.scoreStrings.mock.calls).toEqual([
+        ['Hello!', 'Hello!'],
+        ['It is sunny.', 'It is sunny and warm.'],
+      ]);
+      expect(result.turns).toEqual([
+        {
+          turn: 1,
+          messageIndex: 2,
+          score: 0.9,
+          passed: true,
+          matchedReference: 0,
+          response: 'Hello!',
+        },
+        {
+          turn: 2,
+          messageIndex: 5,
+          score: 0.5,
+          passed: false,
+          matchedReference: 0,
+          response: 'It is sunny.',
+        },
+      ]);
+      expect(result.score).toBeCloseTo(0.7);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Response mismatch in turn(s) 2');
+      expect(result.response).toBe('It is sunny.');
+    });
+
     it('should handle test case with insufficient message blocks', async () => {
       // Setup
       const invalidTestCase: TestCase = {
@@ -99,6 +419,20 @@ describe('EvaluationExecutor', () => {
       expect(result.testCase).toBe(invalidTestCase);
     });
 
+    it('should fail and cancel the request when the agent exceeds the timeout of the test case', async () => {
+      mockAgent.sendInput.mockReturnValue(new Promise(() => {}));
+
+      const result = await evaluationExecutor.executeTestCase(mockAgent, {
+        ...mockTestCase,
+        metadata: { timeout: 10 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Agent did not respond within 10ms');
+      const [[input]] = mockAgent.sendInput.mock.calls;
+      expect(input.signal?.aborted).toBe(true);
+    });
+
     it('should handle agent errors gracefully', async () => {
       // Setup
       mockAgent.sendInput.mockRejectedValue(new Error('Agent error'));
@@ -185,6 +519,58 @@ describe('EvaluationExecutor', () => {
     });
   });
 
+  describe('executeTestCasesInParallel', () => {
+    const testCases: TestCase[] = ['slow', 'fast-1', 'fast-2'].map((id) => ({
+      id,
+      name: id,
+      messageBlocks: [
+        { role: MessageRole.USER, content: id },
+        { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+      ],
+    }));
+
+    it('should start the next test case as soon as a slot frees up', async () => {
+      // Setup: the first test case waits until it is released
+      let releaseSlow = (): void => {};
+      mockAgent.sendInput.mockImplementation((input) =>
+        input.messages[0].content === 'slow'
+          ? new Promise((resolve) => {
+              releaseSlow = () => resolve({ response: 'Hi there!' });
+            })
+          : Promise.resolve({ response: 'Hi there!' }),
+      );
+      mockScoringService.scoreStrings.mockResolvedValue(0.9);
+
+      // Execute with two slots
+      const running = (
+        evaluationExecutor as unknown as {
+          executeTestCasesInParallel: (
+            agent: IAgent,
+            testCases: TestCase[],
+            maxConcurrency: number,
+          ) => Promise<{ testCaseId: string }[]>;
+        }
+      ).executeTestCasesInParallel(mockAgent, testCases, 2);
+      for (
+        let i = 0;
+        i < 20 && mockAgent.sendInput.mock.calls.length < 3;
+        i++
+      ) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      // Assert: both fast test cases ran while the slow one was in flight
+      expect(mockAgent.sendInput.mock.calls).toHaveLength(3);
+      releaseSlow();
+      const results = await running;
+      expect(results.map((result) => result.testCaseId)).toEqual([
+        'slow',
+        'fast-1',
+        'fast-2',
+      ]);
+    });
+  });
+
   describe('evaluateFromDirectory', () => {
     it('should generate a complete evaluation report', async () => {
       // Setup
@@ -210,6 +596,7 @@ describe('EvaluationExecutor', () => {
           testCaseId: 'test-1',
           success: true,
           score: 0.9,
+          threshold: 0.8,
           executionTime: 100,
           response: 'Hi there!',
           testCase: mockTestCase1,
@@ -218,6 +605,7 @@ describe('EvaluationExecutor', () => {
           testCaseId: 'test-2',
           success: false,
           score: 0.3,
+          threshold: 0.8,
           executionTime: 100,
           error: 'Response mismatch',
           response: 'Wrong answer',
@@ -251,6 +639,51 @@ describe('EvaluationExecutor', () => {
       expect(report.duration).toBeGreaterThan(0);
     });
 
+    it('should count skipped test cases and expected failures separately', async () => {
+      mockAgent.sendInput.mockResolvedValue({ response: 'Hi there!' });
+      mockScoringService.scoreStrings
+        .mockResolvedValueOnce(0.9)
+        .mockResolvedValueOnce(0.9)
+        .mockResolvedValueOnce(0.2);
+      const testCases: TestCase[] = [
+        { id: 'passed', metadata: {} },
+        { id: 'skipped', metadata: { skip: true } },
+        { id: 'unexpected pass', metadata: { xfail: true } },
+        { id: 'expected failure', metadata: { xfail: true } },
+      ].map(({ id, metadata }) => ({
+        id,
+        name: id,
+        metadata,
+        messageBlocks: [
+          { role: MessageRole.USER, content: 'Hello' },
+          { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+        ],
+      }));
+      jest
+        .spyOn(TestCaseLoader.prototype, 'loadFromDirectory')
+        .mockResolvedValue({ testCases, errors: [], warnings: [] });
+
+      const report = await evaluationExecutor.evaluateFromDirectory(
+        mockAgent,
+        './test-cases',
+        true,
+      );
+
+      expect(mockAgent.sendInput.mock.calls).toHaveLength(3);
+      expect(report.totalTests).toBe(4);
+      expect(report.passedTests).toBe(1);
+      expect(report.failedTests).toBe(0);
+      expect(report.skippedTests).toBe(1);
+      expect(report.expectedFailures).toBe(1);
+      expect(report.unexpectedPasses).toBe(1);
+      expect(report.results.map((result) => result.outcome)).toEqual([
+        undefined,
+        'skipped',
+        'unexpected pass',
+        'expected failure',
+      ]);
+    });
+
     it('should handle empty directory gracefully', async () => {
       // Setup
       jest
@@ -277,4 +710,79 @@ describe('EvaluationExecutor', () => {
       expect(report.results).toHaveLength(0);
     });
   });
+
+  describe('filterTestCases', () => {
+    const createTestCase = (id: string, tags?: string[]): TestCase => ({
+      id,
+      name: id,
+      messageBlocks: [
+        { role: MessageRole.USER, content: 'Hello' },
+        { role: MessageRole.ASSISTANT, content: 'Hi there!' },
+      ],
+      ...(tags && { metadata: { tags } }),
+    });
+
+    const testCases = [
+      createTestCase('billing/refunds/Refund request', ['smoke']),
+      createTestCase('billing/invoices/Invoice lookup', ['slow']),
+      createTestCase('weather/forecast/Paris', ['Smoke', 'slow']),
+      createTestCase('weather/forecast/London'),
+    ];
+
+    it('should select all test cases without a filter', () => {
+      const result = filterTestCases(testCases);
+
+      expect(result.selected).toHaveLength(4);
+      expect(result.filteredOut).toBe(0);
+    });
+
+    it('should filter by ID pattern', () => {
+      const result = filterTestCases(testCases, { grep: '^billing/' });
+
+      expect(result.selected.map((t) => t.id)).toEqual([
+        'billing/refunds/Refund request',
+        'billing/invoices/Invoice lookup',
+      ]);
+      expect(result.filteredOut).toBe(2);
+    });
+
+    it('should filter by tags case-insensitively', () => {
+      const result = filterTestCases(testCases, { tags: ['smoke'] });
+
+      expect(result.selected.map((t) => t.id)).toEqual([
+        'billing/refunds/Refund request',
+        'weather/forecast/Paris',
+      ]);
+    });
+
+    it('should combine included and excluded tags', () => {
+      const result = filterTestCases(testCases, {
+        grep: 'weather',
+        excludeTags: ['slow'],
+      });
+
+      expect(result.selected.map((t) => t.id)).toEqual([
+        'weather/forecast/London',
+      ]);
+      expect(result.filteredOut).toBe(3);
+    });
+
+    it('should restrict the selection to test cases marked only', () => {
+      const result = filterTestCases(
+        [
+          ...testCases,
+          {
+            ...createTestCase('weather/forecast/Rome'),
+            metadata: { only: true },
+          },
+        ],
+        { grep: 'weather' },
+      );
+
+      expect(result.selected.map((t) => t.id)).toEqual([
+        'weather/forecast/Rome',
+      ]);
+      expect(result.filteredOut).toBe(4);
+    });
+  });
 });
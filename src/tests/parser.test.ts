@@ -1,9 +1,21 @@
 import { TestCaseParser } from '../parser/tokenizer.js';
 import { Parser } from '../parser/parser.js';
-import { TestCaseLoader } from '../parser/loader.js';
+import {
+  formatLoadError,
+  parseTestCaseSelector,
+  TestCaseLoader,
+} from '../parser/loader.js';
 import { MessageRole } from '../core/types/message.types.js';
 import { ParseError } from '../parser/errors.js';
-import { writeFile, mkdir, readdir, unlink, rmdir } from 'fs/promises';
+import { parseCsv } from '../parser/csv.js';
+import { JsonParser } from '../parser/json-parser.js';
+import { YamlParser } from '../parser/yaml-parser.js';
+import { CsvParser } from '../parser/csv-parser.js';
+import { TestCaseValidator } from '../parser/validator.js';
+import { MockToolRegistry } from '../agents/tools/mock-tool-registry.js';
+import { RoleRegistry } from '../core/utils/role-registry.js';
+import { matchesGlob } from '../parser/globs.js';
+import { writeFile, mkdir, readdir, realpath, rm, symlink } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
@@ -180,6 +192,84 @@ assistant: Hi there`;
         expect(result[4]).toEqual({ type: 'role', value: 'assistant' });
         expect(result[5]).toEqual({ type: 'content', value: 'Hi there' });
       });
+
+      it('should handle multi-word and developer roles', () => {
+        const text = `developer: Answer briefly
+user: Hi
+Human Agent: Hello, I'm Sam
+assistant: Welcome back`;
+
+        const result = tokenizer.tokenize(text);
+
+        expect(result.filter((element) => element.type === 'role')).toEqual([
+          { type: 'role', value: 'developer' },
+          { type: 'role', value: 'user' },
+          { type: 'role', value: 'human_agent' },
+          { type: 'role', value: 'assistant' },
+        ]);
+        expect(result[5]).toEqual({ type: 'content', value: "Hello, I'm Sam" });
+      });
+
+      it('should resolve configured role aliases', () => {
+        const aliased = new TestCaseParser(
+          new RoleRegistry({ customer: 'user', bot: 'assistant' }),
+        );
+
+        expect(aliased.tokenize('customer: Hi\nbot: Hello')).toEqual([
+          { type: 'role', value: 'user' },
+          { type: 'content', value: 'Hi' },
+          { type: 'role', value: 'assistant' },
+          { type: 'content', value: 'Hello' },
+        ]);
+        expect(() => tokenizer.tokenize('customer: Hi')).toThrow(
+          'Invalid message role: customer',
+        );
+      });
+
+      it('should accept alternatives under assistant aliases', () => {
+        const aliased = new TestCaseParser(
+          new RoleRegistry({ customer: 'user', bot: 'assistant' }),
+        );
+
+        expect(aliased.tokenize('bot: Hello\nbot (alt): Hi')).toEqual([
+          { type: 'role', value: 'assistant' },
+          { type: 'content', value: 'Hello' },
+          { type: 'alternative', value: 'assistant' },
+          { type: 'content', value: 'Hi' },
+        ]);
+        expect(() => aliased.tokenize('customer (alt): Hi')).toThrow(
+          'All messages must have a role marker',
+        );
+      });
+
+      it('should report the line and column of an invalid role', () => {
+        let error: unknown;
+        try {
+          tokenizer.tokenize('user: Hello\n\n  robot: Beep');
+        } catch (e) {
+          error = e;
+        }
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect((error as ParseError).lineNumber).toBe(3);
+        expect((error as ParseError).column).toBe(3);
+      });
+
+      it('should return the position of each element', () => {
+        const { positions } = tokenizer.tokenizeWithPositions(
+          'user: Hello\nassistant: Hi\nthere\n\nmore',
+          4,
+        );
+
+        expect(positions).toEqual([
+          { line: 5, column: 1 },
+          { line: 5, column: 1 },
+          { line: 6, column: 1 },
+          { line: 6, column: 1 },
+          { line: 7, column: 1 },
+          { line: 9, column: 1 },
+        ]);
+      });
     });
   });
 
@@ -303,114 +393,1690 @@ It's rainy in New York, NY, today, with a temperature of 59°F, 80% precipitatio
 
         expect(() => parser.parse(text, 'test-case')).toThrow(ParseError);
       });
+
+      it('should parse tool uses with any args into static mock responses', () => {
+        const result = parser.parse(
+          `user: What time is it in Paris and Rome?
+assistant: Let me check
+tool use: get_time args: *
+tool response: 12:00
+assistant: It is noon in both`,
+          'time',
+        );
+
+        expect(result.messageBlocks[1].toolUsages).toEqual([
+          { name: 'get_time', args: '*' },
+        ]);
+        const registry = MockToolRegistry.fromMessages(result.messageBlocks);
+        expect(
+          registry.respond({ name: 'get_time', args: '{"city":"Paris"}' }),
+        ).toBe('12:00');
+        expect(
+          registry.respond({ name: 'get_time', args: '{"city":"Rome"}' }),
+        ).toBe('12:00');
+      });
     });
-  });
 
-  describe('TestCaseLoader', () => {
-    let loader: TestCaseLoader;
-    let tempDir: string;
+    describe('roles', () => {
+      it('should parse human agent messages as their own role', () => {
+        const text = `user: I need a refund
+human agent: I can help with that
+user: Thanks
+assistant: Anything else?`;
 
-    beforeEach(async () => {
-      loader = new TestCaseLoader();
-      tempDir = join(tmpdir(), 'hebo-eval-tests');
-      // Ensure clean directory for each test
-      await mkdir(tempDir, { recursive: true });
+        const result = parser.parse(text, 'handover');
+
+        expect(result.messageBlocks.map((block) => block.role)).toEqual([
+          MessageRole.USER,
+          MessageRole.HUMAN_AGENT,
+          MessageRole.USER,
+          MessageRole.ASSISTANT,
+        ]);
+      });
+
+      it('should parse aliased roles into their target roles', () => {
+        const aliased = new Parser(
+          new RoleRegistry({ customer: 'user', bot: 'assistant' }),
+        );
+
+        const result = aliased.parse('customer: Hi\nbot: Hello', 'aliases');
+
+        expect(result.messageBlocks.map((block) => block.role)).toEqual([
+          MessageRole.USER,
+          MessageRole.ASSISTANT,
+        ]);
+      });
     });
 
-    afterEach(async () => {
-      // Cleanup temp files
-      try {
-        const files = await readdir(tempDir);
-        await Promise.all(files.map((file) => unlink(join(tempDir, file))));
-        await rmdir(tempDir);
-      } catch (error) {
-        console.error('Cleanup error:', error);
-      }
+    describe('error positions', () => {
+      it('should count lines across titles, front-matter and separators', () => {
+        const text = `# Greeting
+user: Hello
+assistant: Hi
+---
+# Weather
+tags: weather
+
+user: What's the weather?
+assistant: Sunny
+  expect: startsWith "Sunny"`;
+
+        let error: unknown;
+        try {
+          parser.parseMultiple(text, 'file', 'file');
+        } catch (e) {
+          error = e;
+        }
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect((error as ParseError).message).toMatch(/^Invalid assertion/);
+        expect((error as ParseError).lineNumber).toBe(10);
+        expect((error as ParseError).column).toBe(3);
+      });
+
+      it('should point errors about a whole test case at its first line', () => {
+        const text = `# Greeting
+user: Hello
+assistant: Hi
+
+---
+
+# Empty
+tags: smoke`;
+
+        let error: unknown;
+        try {
+          parser.parseMultiple(text, 'file', 'file');
+        } catch (e) {
+          error = e;
+        }
+
+        expect((error as ParseError).message).toBe(
+          'Test case must contain at least one message',
+        );
+        expect((error as ParseError).lineNumber).toBe(7);
+      });
+
+      it('should report the line of invalid front-matter values', () => {
+        let error: unknown;
+        try {
+          parser.parse('# Title\nthreshold: 2\nuser: Hi', 'title');
+        } catch (e) {
+          error = e;
+        }
+
+        expect((error as ParseError).lineNumber).toBe(2);
+      });
     });
 
-    describe('loadFromDirectory', () => {
-      it('should load test cases from a directory', async () => {
-        // Create test files
-        const testFile1 = join(tempDir, 'test1.txt');
-        const testFile2 = join(tempDir, 'test2.txt');
+    describe('alternative references', () => {
+      it('should attach alternative blocks to the preceding assistant message', () => {
+        const text = `user: What is 2 + 2?
+assistant: The answer is 4
+assistant (alt): 4
+assistant (alt): It's four.
+Definitely four.`;
 
-        // Create files and wait for them to be written
-        await Promise.all([
-          writeFile(
-            testFile1,
-            `user: Hello
-assistant: Hi there`,
-          ),
-          writeFile(
-            testFile2,
-            `user: How are you?
-assistant: I'm good`,
-          ),
+        const result = parser.parse(text, 'math');
+
+        expect(result.messageBlocks).toHaveLength(2);
+        expect(result.messageBlocks[1]).toEqual({
+          role: MessageRole.ASSISTANT,
+          content: 'The answer is 4',
+          toolUsages: [],
+          toolResponses: [],
+          alternatives: ['4', "It's four.\nDefinitely four."],
+        });
+      });
+
+      it('should reject alternatives that do not follow an assistant message', () => {
+        const text = `user: What is 2 + 2?
+assistant (alt): 4`;
+
+        expect(() => parser.parse(text, 'math')).toThrow(
+          'Alternative references must follow an assistant message',
+        );
+      });
+
+      it('should reject empty alternatives', () => {
+        const text = `user: What is 2 + 2?
+assistant: 4
+assistant (alt):`;
+
+        expect(() => parser.parse(text, 'math')).toThrow(
+          'Alternative reference cannot be empty',
+        );
+      });
+    });
+
+    describe('attachments', () => {
+      it('should parse attachments into typed content parts', () => {
+        const text = `user: What is the total of this receipt?
+attachment: ./fixtures/receipt.png
+attachment: ./fixtures/terms.pdf
+assistant: The total is $12.50`;
+
+        const result = parser.parse(text, 'receipt');
+
+        expect(result.messageBlocks[0].content).toBe(
+          'What is the total of this receipt?',
+        );
+        expect(result.messageBlocks[0].attachments).toEqual([
+          {
+            type: 'image',
+            path: './fixtures/receipt.png',
+            mimeType: 'image/png',
+          },
+          {
+            type: 'file',
+            path: './fixtures/terms.pdf',
+            mimeType: 'application/pdf',
+          },
         ]);
+        expect(result.messageBlocks[1].attachments).toBeUndefined();
+      });
 
-        const result = await loader.loadFromDirectory(tempDir);
+      it('should reject attachments on assistant messages', () => {
+        const text = `user: Show me a cat
+assistant: Here it is
+attachment: cat.png`;
 
-        expect(result.testCases).toHaveLength(2);
-        expect(result.errors).toHaveLength(0);
-        expect(result.testCases[0].name).toBe('test1');
-        expect(result.testCases[1].name).toBe('test2');
+        expect(() => parser.parse(text, 'cat')).toThrow(
+          'Attachments cannot be added to assistant messages',
+        );
       });
 
-      it('should handle invalid test files', async () => {
-        // Create an invalid test file
-        const invalidFile = join(tempDir, 'invalid.txt');
-        await writeFile(invalidFile, 'invalid: content');
+      it('should reject attachments without a path', () => {
+        const text = `user: Hello
+attachment:
+assistant: Hi`;
 
-        const result = await loader.loadFromDirectory(tempDir);
+        expect(() => parser.parse(text, 'empty')).toThrow(
+          'Attachment must include a file path',
+        );
+      });
+    });
 
-        expect(result.testCases).toHaveLength(0);
-        expect(result.errors).toHaveLength(1);
-        expect(result.errors[0].filePath).toBe(invalidFile);
+    describe('assertions', () => {
+      it('should parse expect lines into typed assertions', () => {
+        const text = `user: What's the weather in New York?
+assistant: It's 59°F and rainy
+expect: contains "59°F"
+expect: not-contains As an AI
+expect: regex /rain(y|ing)/i
+expect: equals "It's 59°F and rainy"`;
+
+        const result = parser.parse(text, 'weather');
+
+        expect(result.messageBlocks).toHaveLength(2);
+        expect(result.messageBlocks[1].content).toBe("It's 59°F and rainy");
+        expect(result.assertions).toEqual([
+          { type: 'contains', value: '59°F' },
+          { type: 'not-contains', value: 'As an AI' },
+          { type: 'regex', value: 'rain(y|ing)', flags: 'i' },
+          { type: 'equals', value: "It's 59°F and rainy" },
+        ]);
       });
 
-      it('should handle non-existent directory', async () => {
-        const nonExistentDir = join(tempDir, 'non-existent');
-        const result = await loader.loadFromDirectory(nonExistentDir);
+      it('should reject unknown assertion types', () => {
+        const text = `user: Hello
+assistant: Hi
+expect: startsWith "Hi"`;
 
-        expect(result.testCases).toHaveLength(0);
-        expect(result.errors).toHaveLength(1);
-        expect(result.errors[0].filePath).toBe(nonExistentDir);
+        expect(() => parser.parse(text, 'greeting')).toThrow(
+          'Invalid assertion',
+        );
       });
 
-      it('should handle errors according to stopOnError parameter', async () => {
-        // Create test files with one invalid file
-        const validFile1 = join(tempDir, 'a_valid1.txt');
-        const invalidFile = join(tempDir, 'b_invalid.txt');
-        const validFile2 = join(tempDir, 'c_valid2.txt');
+      it('should reject invalid regular expressions', () => {
+        const text = `user: Hello
+assistant: Hi
+expect: regex /(unclosed/`;
 
-        await Promise.all([
-          writeFile(
-            validFile1,
-            `user: Hello
+        expect(() => parser.parse(text, 'greeting')).toThrow(
+          'Invalid regex assertion',
+        );
+      });
+    });
+
+    describe('front-matter', () => {
+      it('should parse metadata declared before the first message', () => {
+        const text = `# Weather forecast
+tags: weather, smoke
+owner: support-team
+threshold: 0.9
+scorer: similarity
+timeout: 30000
+description: Checks the Paris forecast
+
+user: What's the weather like in Paris?
+assistant: It's sunny in Paris`;
+
+        const [result] = parser.parseMultiple(text, 'weather', 'weather');
+
+        expect(result.name).toBe('Weather forecast');
+        expect(result.metadata).toEqual({
+          tags: ['weather', 'smoke'],
+          owner: 'support-team',
+          threshold: 0.9,
+          scorer: 'similarity',
+          timeout: 30000,
+          description: 'Checks the Paris forecast',
+        });
+        expect(result.messageBlocks).toHaveLength(2);
+        expect(result.messageBlocks[0].content).toBe(
+          "What's the weather like in Paris?",
+        );
+      });
+
+      it('should match camel-case metadata keys case-insensitively', () => {
+        const result = parser.parse(
+          `toolArgs: subset
+toolorder: any
+user: Hello
 assistant: Hi there`,
-          ),
-          writeFile(invalidFile, 'invalid: content'),
-          writeFile(
-            validFile2,
-            `user: How are you?
-assistant: I'm good`,
-          ),
+          'test-case',
+        );
+
+        expect(result.metadata).toEqual({
+          toolArgs: 'subset',
+          toolOrder: 'any',
+        });
+      });
+
+      it('should omit metadata when no front-matter is present', () => {
+        const result = parser.parse(
+          `user: Hello
+assistant: Hi there`,
+          'test-case',
+        );
+
+        expect(result.metadata).toBeUndefined();
+      });
+
+      it('should keep metadata keys inside messages as role errors', () => {
+        const text = `user: Hello
+owner: someone
+assistant: Hi there`;
+
+        expect(() => parser.parse(text, 'test-case')).toThrow(
+          'Invalid message role: owner',
+        );
+      });
+
+      it('should reject invalid metadata values', () => {
+        const text = `threshold: 1.5
+user: Hello
+assistant: Hi there`;
+
+        expect(() => parser.parse(text, 'test-case')).toThrow(
+          'Invalid metadata value for "threshold"',
+        );
+      });
+
+      it('should strip quotes around data and tool file paths', () => {
+        const text = `data: "cities.csv"
+tools: 'tools/weather.json'
+user: Weather in {{city}}?
+assistant: Sunny`;
+
+        expect(parser.parse(text, 'test-case').metadata).toEqual({
+          data: 'cities.csv',
+          tools: 'tools/weather.json',
+        });
+      });
+
+      it('should reject unknown scorers', () => {
+        const text = `scorer: semantic
+user: Hello
+assistant: Hi there`;
+
+        expect(() => parser.parse(text, 'test-case')).toThrow(
+          'Invalid metadata value for "scorer"',
+        );
+      });
+
+      it('should apply file-level defaults from a leading front-matter block', () => {
+        const text = `threshold: 0.95
+tags: math
+
+---
+
+# Strict
+user: What is 2 + 2?
+assistant: 4
+
+---
+
+# Lenient
+threshold: 0.6
+tags: smoke
+user: Review this code
+assistant: Looks good`;
+
+        const results = parser.parseMultiple(text, 'suite', 'suite', {
+          threshold: 0.7,
+          owner: 'qa',
+        });
+
+        expect(results).toHaveLength(2);
+        expect(results[0].metadata).toEqual({
+          threshold: 0.95,
+          tags: ['math'],
+          owner: 'qa',
+        });
+        expect(results[1].metadata).toEqual({
+          threshold: 0.6,
+          tags: ['math', 'smoke'],
+          owner: 'qa',
+        });
+      });
+
+      it('should reject duplicate metadata keys', () => {
+        const text = `owner: a
+owner: b
+user: Hello
+assistant: Hi there`;
+
+        expect(() => parser.parse(text, 'test-case')).toThrow(
+          'Duplicate metadata key: owner',
+        );
+      });
+
+      it('should use an explicit id in place of the title', () => {
+        const [result] = parser.parseMultiple(
+          `# Refund policy (renamed)
+id: refund-policy
+
+user: Can I get a refund?
+assistant: Yes, within 30 days`,
+          'support',
+          'support',
+        );
+
+        expect(result.id).toBe('support/refund-policy');
+        expect(result.name).toBe('Refund policy (renamed)');
+        expect(result.metadata).toBeUndefined();
+      });
+
+      it('should reject test cases with the same ID in one file', () => {
+        const text = `# Greeting
+user: Hello
+assistant: Hi there
+---
+# Farewell
+id: Greeting
+
+user: Bye
+assistant: Goodbye`;
+
+        let error: unknown;
+        try {
+          parser.parseMultiple(text, 'support', 'support');
+        } catch (e) {
+          error = e;
+        }
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect((error as ParseError).message).toContain(
+          'Duplicate test case ID: support/Greeting',
+        );
+        expect((error as ParseError).lineNumber).toBe(5);
+      });
+
+      it('should read skip, only and xfail markers from titles and metadata', () => {
+        const text = `# Refund policy @xfail
+user: Can I get a refund?
+assistant: Yes, within 30 days
+---
+# Greeting
+skip: true
+
+user: Hello
+assistant: Hi there`;
+
+        const results = parser.parseMultiple(text, 'support', 'support');
+
+        expect(results[0].id).toBe('support/Refund policy');
+        expect(results[0].name).toBe('Refund policy');
+        expect(results[0].metadata).toEqual({ xfail: true });
+        expect(results[1].metadata).toEqual({ skip: true });
+      });
+    });
+
+    describe('variable tables', () => {
+      it('should expand a test case once per table row', () => {
+        const text = `# forecast
+tags: weather
+| city   | temperature |
+|--------|-------------|
+| Paris  | 18°C        |
+| London | 15°C        |
+
+user: What's the weather in {{city}}?
+assistant: It is {{ temperature }} in {{city}}.
+expect: contains "{{temperature}}"`;
+
+        const results = parser.parseMultiple(text, 'forecast', 'weather');
+
+        expect(results.map((r) => r.id)).toEqual([
+          'weather/forecast[city=Paris,temperature=18°C]',
+          'weather/forecast[city=London,temperature=15°C]',
+        ]);
+        expect(results[1].messageBlocks[0].content).toBe(
+          "What's the weather in London?",
+        );
+        expect(results[1].messageBlocks[1].content).toBe(
+          'It is 15°C in London.',
+        );
+        expect(results[1].assertions).toEqual([
+          { type: 'contains', value: '15°C' },
         ]);
+        expect(results[0].metadata).toEqual({ tags: ['weather'] });
+      });
 
-        // Test with stopOnError = true (default)
-        const resultWithStop = await loader.loadFromDirectory(tempDir);
-        expect(resultWithStop.testCases).toHaveLength(1); // Only first valid file processed
-        expect(resultWithStop.errors).toHaveLength(1);
-        expect(resultWithStop.errors[0].filePath).toBe(invalidFile);
+      it('should substitute variables in tool arguments as JSON strings', () => {
+        const text = `| query |
+|-------|
+| say "hi" |
+user: Search
+assistant: Searching
+tool use: search args: {"q": "{{query}}"}`;
 
-        // Test with stopOnError = false
-        const resultWithoutStop = await loader.loadFromDirectory(
-          tempDir,
-          false,
+        const [result] = parser.parseMultiple(text, 'search', 'tools');
+
+        expect(result.messageBlocks[1].toolUsages?.[0].args).toBe(
+          '{"q": "say \\"hi\\""}',
         );
-        expect(resultWithoutStop.testCases).toHaveLength(2); // Both valid files processed
-        expect(resultWithoutStop.errors).toHaveLength(1);
-        expect(resultWithoutStop.errors[0].filePath).toBe(invalidFile);
+      });
+
+      it('should reject undefined variables', () => {
+        const text = `| city |
+|------|
+| Paris |
+user: Weather in {{town}}?
+assistant: Sunny`;
+
+        expect(() => parser.parseMultiple(text, 'forecast', 'weather')).toThrow(
+          'Undefined variable "town" in test case weather/forecast',
+        );
+      });
+
+      it('should keep placeholders without a variable table', () => {
+        const result = parser.parse(
+          `user: Hello {{name}}
+assistant: Hi`,
+          'test-case',
+        );
+
+        expect(result.messageBlocks[0].content).toBe('Hello {{name}}');
+      });
+    });
+  });
+
+  describe('JsonParser', () => {
+    it('should map records in the OpenAI chat format to test cases', () => {
+      const parser = new JsonParser('jsonl');
+      const text = [
+        JSON.stringify({
+          id: 'paris',
+          messages: [
+            { role: 'system', content: 'You are a weather bot.' },
+            { role: 'user', content: 'Weather in Paris?' },
+            {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  type: 'function',
+                  function: {
+                    name: 'get_weather',
+                    arguments: '{"city":"Paris"}',
+                  },
+                },
+              ],
+            },
+            { role: 'tool', content: '18°C' },
+          ],
+          expected: 'It is 18°C in Paris.',
+        }),
+        '',
+        JSON.stringify({
+          name: 'Greeting',
+          messages: [
+            { role: 'user', content: 'Hi' },
+            { role: 'assistant', content: 'Hello!' },
+          ],
+        }),
+      ].join('\n');
+
+      const results = parser.parseMultiple(text, 'weather', 'exports/weather');
+
+      expect(results.map((r) => r.id)).toEqual([
+        'exports/weather/paris',
+        'exports/weather/Greeting',
+      ]);
+      expect(results[0].messageBlocks).toEqual([
+        {
+          role: MessageRole.SYSTEM,
+          content: 'You are a weather bot.',
+          toolUsages: [],
+          toolResponses: [],
+        },
+        {
+          role: MessageRole.USER,
+          content: 'Weather in Paris?',
+          toolUsages: [],
+          toolResponses: [],
+        },
+        {
+          role: MessageRole.ASSISTANT,
+          content: '',
+          toolUsages: [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+          toolResponses: [{ content: '18°C' }],
+        },
+        {
+          role: MessageRole.ASSISTANT,
+          content: 'It is 18°C in Paris.',
+          toolUsages: [],
+          toolResponses: [],
+        },
+      ]);
+    });
+
+    it('should report the index of an invalid record', () => {
+      const parser = new JsonParser('json');
+      const text = JSON.stringify([
+        { messages: [{ role: 'user', content: 'Hi' }], expected: 'Hello' },
+        { messages: [{ role: 'robot', content: 'Hi' }], expected: 'Hello' },
+      ]);
+
+      expect(() => parser.parseMultiple(text, 'chats', 'chats')).toThrow(
+        /^Invalid test case record at index 1: messages\.0\.role: /,
+      );
+    });
+
+    it('should require an expected response', () => {
+      const parser = new JsonParser('json');
+      const text = JSON.stringify({
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      expect(() => parser.parseMultiple(text, 'chats', 'chats')).toThrow(
+        'Record must end with an assistant message or provide "expected"',
+      );
+    });
+  });
+
+  describe('YamlParser', () => {
+    let parser: YamlParser;
+
+    beforeEach(() => {
+      parser = new YamlParser();
+    });
+
+    it('should read markers from test names', () => {
+      const [result] = parser.parseMultiple(
+        `tests:
+  - name: Greeting @only
+    messages:
+      - user: Hello
+      - assistant: Hi there
+`,
+        'greetings',
+        'greetings',
+      );
+
+      expect(result.id).toBe('greetings/Greeting');
+      expect(result.metadata).toEqual({ only: true });
+    });
+
+    it('should parse suites into the same structure as the text format', () => {
+      const yaml = `suites:
+  - name: forecast
+    metadata:
+      tags: [weather]
+      threshold: 0.9
+    tests:
+      - name: Paris
+        metadata:
+          tags: smoke
+        messages:
+          - system: You are a weather assistant.
+          - user: What's the weather in Paris?
+          - role: assistant
+            content: |-
+              I'll check the weather for you
+            tool_uses:
+              - name: get_weather
+                args: { city: Paris }
+            tool_responses:
+              - 18°C and sunny
+          - assistant: It is 18°C and sunny in Paris.
+            alternatives:
+              - Paris is sunny at 18°C.
+        expect:
+          - contains "18°C"
+`;
+      const textResult = new Parser().parse(
+        `system: You are a weather assistant.
+user: What's the weather in Paris?
+assistant: I'll check the weather for you
+tool use: get_weather args: {"city": "Paris"}
+tool response: 18°C and sunny
+assistant: It is 18°C and sunny in Paris.
+assistant (alt): Paris is sunny at 18°C.
+expect: contains "18°C"`,
+        'Paris',
+        'weather/forecast/Paris',
+      );
+
+      const [result] = parser.parseMultiple(yaml, 'weather', 'weather');
+
+      expect(result).toEqual({
+        ...textResult,
+        metadata: { tags: ['weather', 'smoke'], threshold: 0.9 },
+      });
+    });
+
+    it('should accept a single suite and name unnamed tests by index', () => {
+      const yaml = `tests:
+  - messages:
+      - user: What is 2 + 2?
+      - assistant: 4
+  - messages:
+      - user: Hi
+      - assistant: Hello
+`;
+
+      const results = parser.parseMultiple(yaml, 'math', 'math');
+
+      expect(results.map((r) => r.id)).toEqual(['math/math_1', 'math/math_2']);
+      expect(results[0].messageBlocks[1].content).toBe('4');
+    });
+
+    it('should report schema errors with their location', () => {
+      const yaml = `tests:
+  - messages:
+      - robot: Hi
+`;
+
+      let error: unknown;
+      try {
+        parser.parseMultiple(yaml, 'bad', 'bad');
+      } catch (e) {
+        error = e;
+      }
+
+      expect((error as ParseError).message).toMatch(
+        /^Invalid YAML test file at tests\.0\.messages\.0/,
+      );
+      expect((error as ParseError).lineNumber).toBe(3);
+      expect((error as ParseError).column).toBe(9);
+    });
+
+    it('should report YAML syntax errors with a line number', () => {
+      let error: unknown;
+      try {
+        parser.parseMultiple('tests:\n  - messages: [\n', 'bad', 'bad');
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ParseError);
+      expect((error as ParseError).message).toMatch(/^Invalid YAML: /);
+      expect((error as ParseError).lineNumber).toBeDefined();
+    });
+
+    it('should combine suite and test tool definitions', () => {
+      const yaml = `tools:
+  - name: get_weather
+    description: Gets the weather for a city
+    parameters:
+      type: object
+      properties:
+        city: { type: string }
+  - type: function
+    function:
+      name: get_time
+tests:
+  - tools:
+      - name: get_time
+        description: Gets the local time
+    messages:
+      - user: Weather in Paris?
+      - assistant: Sunny
+`;
+
+      const [result] = parser.parseMultiple(yaml, 'weather', 'weather');
+
+      expect(result.tools).toEqual([
+        {
+          name: 'get_weather',
+          description: 'Gets the weather for a city',
+          parameters: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+          },
+        },
+        { name: 'get_time', description: 'Gets the local time' },
+      ]);
+    });
+
+    it('should reject duplicate tool names', () => {
+      const yaml = `tools:
+  - name: get_weather
+  - name: get_weather
+tests:
+  - messages:
+      - user: Hi
+      - assistant: Hello
+`;
+
+      expect(() => parser.parseMultiple(yaml, 'weather', 'weather')).toThrow(
+        'Duplicate tool name "get_weather"',
+      );
+    });
+  });
+
+  describe('CsvParser', () => {
+    it('should turn each row into a user and an expected assistant message', () => {
+      const parser = new CsvParser();
+      const text = `input,expected,tags
+"Say hello
+in French",Bonjour,"i18n, smoke"
+What's 2 + 2?,4,
+`;
+
+      const results = parser.parseMultiple(text, 'dataset', 'sheets/dataset');
+
+      expect(results).toEqual([
+        {
+          id: 'sheets/dataset/dataset_1',
+          name: 'dataset_1',
+          messageBlocks: [
+            {
+              role: MessageRole.USER,
+              content: 'Say hello\nin French',
+              toolUsages: [],
+              toolResponses: [],
+            },
+            {
+              role: MessageRole.ASSISTANT,
+              content: 'Bonjour',
+              toolUsages: [],
+              toolResponses: [],
+            },
+          ],
+          metadata: { tags: ['i18n', 'smoke'] },
+        },
+        {
+          id: 'sheets/dataset/dataset_2',
+          name: 'dataset_2',
+          messageBlocks: [
+            {
+              role: MessageRole.USER,
+              content: "What's 2 + 2?",
+              toolUsages: [],
+              toolResponses: [],
+            },
+            {
+              role: MessageRole.ASSISTANT,
+              content: '4',
+              toolUsages: [],
+              toolResponses: [],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should use the configured column mapping and system column', () => {
+      const parser = new CsvParser({
+        input: 'question',
+        expected: 'answer',
+        system: 'prompt',
+        id: 'key',
+      });
+      const text = `key,prompt,question,answer
+capital,You are a geography tutor.,Capital of France?,Paris`;
+
+      const [result] = parser.parseMultiple(text, 'geo', 'geo');
+
+      expect(result.id).toBe('geo/capital');
+      expect(result.messageBlocks.map((b) => [b.role, b.content])).toEqual([
+        [MessageRole.SYSTEM, 'You are a geography tutor.'],
+        [MessageRole.USER, 'Capital of France?'],
+        [MessageRole.ASSISTANT, 'Paris'],
+      ]);
+    });
+
+    it('should report missing columns and empty cells', () => {
+      const parser = new CsvParser({ input: 'question' });
+
+      expect(() =>
+        parser.parseMultiple('input,expected\nHi,Hello', 'a', 'a'),
+      ).toThrow('CSV file is missing the "question" column for input');
+      expect(() =>
+        parser.parseMultiple('question,expected\nHi,\n', 'a', 'a'),
+      ).toThrow('CSV row 1 has an empty "expected" cell');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should handle quoted cells with commas, quotes and line breaks', () => {
+      const text =
+        'name,notes\r\n"Smith, J","said ""hi""\nthen left"\n\nDoe,ok\n';
+
+      expect(parseCsv(text)).toEqual([
+        ['name', 'notes'],
+        ['Smith, J', 'said "hi"\nthen left'],
+        ['Doe', 'ok'],
+      ]);
+    });
+
+    it('should reject unterminated quoted cells', () => {
+      expect(() => parseCsv('a,b\n"open,c')).toThrow(
+        'Unterminated quoted CSV cell',
+      );
+    });
+  });
+
+  describe('TestCaseLoader', () => {
+    let loader: TestCaseLoader;
+    let tempDir: string;
+
+    beforeEach(async () => {
+      loader = new TestCaseLoader();
+      tempDir = join(tmpdir(), 'hebo-eval-tests');
+      // Ensure clean directory for each test
+      await mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      // Cleanup temp files
+      try {
+        await rm(tempDir, { recursive: true, force: true });
+      } catch (error) {
+        console.error('Cleanup error:', error);
+      }
+    });
+
+    describe('loadFromDirectory', () => {
+      it('should load test cases from a directory', async () => {
+        // Create test files
+        const testFile1 = join(tempDir, 'test1.txt');
+        const testFile2 = join(tempDir, 'test2.txt');
+
+        // Create files and wait for them to be written
+        await Promise.all([
+          writeFile(
+            testFile1,
+            `user: Hello
+assistant: Hi there`,
+          ),
+          writeFile(
+            testFile2,
+            `user: How are you?
+assistant: I'm good`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.testCases).toHaveLength(2);
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases[0].name).toBe('test1');
+        expect(result.testCases[1].name).toBe('test2');
+      });
+
+      it('should handle invalid test files', async () => {
+        // Create an invalid test file
+        const invalidFile = join(tempDir, 'invalid.txt');
+        await writeFile(invalidFile, 'invalid: content');
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.testCases).toHaveLength(0);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].filePath).toBe(invalidFile);
+      });
+
+      it('should handle non-existent directory', async () => {
+        const nonExistentDir = join(tempDir, 'non-existent');
+        const result = await loader.loadFromDirectory(nonExistentDir);
+
+        expect(result.testCases).toHaveLength(0);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].filePath).toBe(nonExistentDir);
+      });
+
+      it('should apply directory defaults with the nearest directory winning', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const nestedDir = join(tempDir, 'math');
+        await mkdir(nestedDir, { recursive: true });
+
+        await Promise.all([
+          writeFile(join(tempDir, '.heboeval'), 'threshold: 0.7\ntags: all'),
+          writeFile(join(nestedDir, '.heboeval'), 'threshold: 0.95'),
+          writeFile(
+            join(tempDir, 'review.txt'),
+            `user: Review this
+assistant: Looks good`,
+          ),
+          writeFile(
+            join(nestedDir, 'sum.txt'),
+            `user: What is 2 + 2?
+assistant: 4`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+        const byId = Object.fromEntries(
+          result.testCases.map((testCase) => [testCase.id, testCase]),
+        );
+
+        expect(result.errors).toHaveLength(0);
+        expect(byId['review/review'].metadata).toEqual({
+          threshold: 0.7,
+          tags: ['all'],
+        });
+        expect(byId['math/sum/sum'].metadata).toEqual({
+          threshold: 0.95,
+          tags: ['all'],
+        });
+      });
+
+      it('should report invalid directory settings', async () => {
+        await Promise.all([
+          writeFile(join(tempDir, '.heboeval'), 'threshold: high'),
+          writeFile(
+            join(tempDir, 'test.txt'),
+            `user: Hello
+assistant: Hi there`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.testCases).toHaveLength(0);
+        expect(result.errors[0].message).toContain('Invalid settings in');
+      });
+
+      it('should expand test cases from a data file', async () => {
+        loader = new TestCaseLoader(tempDir);
+        await mkdir(join(tempDir, 'data'), { recursive: true });
+        await Promise.all([
+          writeFile(
+            join(tempDir, 'data', 'cities.csv'),
+            'city,temperature\nParis,18°C\n"New York, NY",64°F\n',
+          ),
+          writeFile(
+            join(tempDir, 'data', 'cities.json'),
+            JSON.stringify([{ city: 'Rome', temperature: 21 }]),
+          ),
+          writeFile(
+            join(tempDir, 'weather.txt'),
+            `# csv
+data: ./data/cities.csv
+user: Weather in {{city}}?
+assistant: {{temperature}}
+---
+# json
+data: "data/cities.json"
+user: Weather in {{city}}?
+assistant: {{temperature}}`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toEqual([]);
+        expect(result.testCases.map((t) => t.id)).toEqual([
+          'weather/csv[city=Paris,temperature=18°C]',
+          'weather/csv[city=New York, NY,temperature=64°F]',
+          'weather/json[city=Rome,temperature=21]',
+        ]);
+        expect(result.testCases[2].messageBlocks[1].content).toBe('21');
+      });
+
+      it('should report missing data files', async () => {
+        await writeFile(
+          join(tempDir, 'weather.txt'),
+          `data: missing.csv
+user: Weather in {{city}}?
+assistant: Sunny`,
+        );
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors[0].message).toContain(
+          'Data file not found: missing.csv',
+        );
+      });
+
+      it('should report invalid data files against the data file', async () => {
+        const dataFile = join(tempDir, 'cities.xml');
+        await Promise.all([
+          writeFile(dataFile, '<cities />'),
+          writeFile(
+            join(tempDir, 'weather.txt'),
+            `data: cities.xml
+user: Weather in {{city}}?
+assistant: Sunny`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors[0]).toMatchObject({
+          filePath: dataFile,
+          message: expect.stringContaining('Unsupported data file'),
+        });
+        expect(result.errors[0].line).toBeUndefined();
+      });
+
+      it('should load tool files declared in front-matter and directory settings', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const nestedDir = join(tempDir, 'weather');
+        await mkdir(join(tempDir, 'tools'), { recursive: true });
+        await mkdir(nestedDir, { recursive: true });
+        await Promise.all([
+          writeFile(
+            join(tempDir, 'tools', 'weather.json'),
+            JSON.stringify([{ name: 'get_weather' }]),
+          ),
+          writeFile(
+            join(tempDir, 'tools', 'time.yaml'),
+            'tools:\n  - name: get_time\n',
+          ),
+          writeFile(join(tempDir, '.heboeval'), 'tools: tools/weather.json'),
+          writeFile(
+            join(nestedDir, 'forecast.txt'),
+            `user: Weather in Paris?
+assistant: Sunny`,
+          ),
+          writeFile(
+            join(nestedDir, 'clock.txt'),
+            `tools: ../tools/time.yaml
+user: What time is it?
+assistant: Noon`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(0);
+        const toolsById = Object.fromEntries(
+          result.testCases.map((t) => [t.id, t.tools]),
+        );
+        expect(toolsById).toEqual({
+          'weather/clock/clock': [{ name: 'get_time' }],
+          'weather/forecast/forecast': [{ name: 'get_weather' }],
+        });
+      });
+
+      it('should resolve data and tool paths of settings files relative to them', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const nestedDir = join(tempDir, 'weather');
+        await mkdir(join(tempDir, 'shared'), { recursive: true });
+        await mkdir(nestedDir, { recursive: true });
+        await Promise.all([
+          writeFile(join(tempDir, 'shared', 'cities.csv'), 'city\nParis'),
+          writeFile(
+            join(tempDir, 'shared', 'tools.json'),
+            JSON.stringify([{ name: 'get_weather' }]),
+          ),
+          writeFile(
+            join(tempDir, '.heboeval'),
+            'data: shared/cities.csv\ntools: shared/tools.json',
+          ),
+          writeFile(
+            join(nestedDir, 'forecast.txt'),
+            `user: Weather in {{city}}?
+assistant: Sunny`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toEqual([]);
+        expect(result.testCases).toHaveLength(1);
+        expect(result.testCases[0]).toMatchObject({
+          id: 'weather/forecast/forecast[city=Paris]',
+          metadata: { tools: '../shared/tools.json' },
+          tools: [{ name: 'get_weather' }],
+        });
+      });
+
+      it('should read attachments relative to the test file', async () => {
+        await mkdir(join(tempDir, 'fixtures'), { recursive: true });
+        await Promise.all([
+          writeFile(join(tempDir, 'fixtures', 'receipt.png'), 'png-bytes'),
+          writeFile(
+            join(tempDir, 'receipt.txt'),
+            `user: What is the total?
+attachment: ./fixtures/receipt.png
+assistant: $12.50`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases[0].messageBlocks[0].attachments).toEqual([
+          {
+            type: 'image',
+            path: './fixtures/receipt.png',
+            mimeType: 'image/png',
+            data: Buffer.from('png-bytes').toString('base64'),
+          },
+        ]);
+      });
+
+      it('should report missing attachments', async () => {
+        await writeFile(
+          join(tempDir, 'receipt.txt'),
+          `user: What is the total?
+attachment: missing.png
+assistant: $12.50`,
+        );
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors[0].message).toContain(
+          'Attachment not found: missing.png',
+        );
+      });
+
+      it('should splice included files relative to the including file', async () => {
+        await mkdir(join(tempDir, 'shared'), { recursive: true });
+        await Promise.all([
+          writeFile(
+            join(tempDir, 'shared', 'system.txt'),
+            'include: ./persona.txt\n',
+          ),
+          writeFile(
+            join(tempDir, 'shared', 'persona.txt'),
+            'system: You are a weather bot.\n',
+          ),
+          writeFile(
+            join(tempDir, 'weather.txt'),
+            `include: ./shared/system.txt
+user: Weather in Paris?
+assistant: Sunny`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toEqual([]);
+        expect(result.testCases).toHaveLength(1);
+        expect(result.testCases[0].messageBlocks[0]).toMatchObject({
+          role: MessageRole.SYSTEM,
+          content: 'You are a weather bot.',
+        });
+      });
+
+      it('should report missing included files', async () => {
+        const testFile = join(tempDir, 'weather.txt');
+        await writeFile(
+          testFile,
+          `include: ./shared/missing.txt
+user: Hello
+assistant: Hi`,
+        );
+
+        await expect(loader.loadFile(testFile)).rejects.toThrow(
+          `Included file not found: ./shared/missing.txt (included from ${testFile})`,
+        );
+      });
+
+      it('should report include cycles', async () => {
+        const first = join(tempDir, 'a.txt');
+        const second = join(tempDir, 'b.txt');
+        await Promise.all([
+          writeFile(first, 'include: ./b.txt\nuser: Hello\nassistant: Hi'),
+          writeFile(second, 'include: ./a.txt'),
+        ]);
+
+        await expect(loader.loadFile(first)).rejects.toThrow(
+          `Include cycle detected: ${first} -> ${second} -> ${first}`,
+        );
+      });
+
+      it('should locate errors in included files', async () => {
+        const testFile = join(tempDir, 'test.txt');
+        const sharedFile = join(tempDir, 'shared.txt');
+        await Promise.all([
+          writeFile(
+            testFile,
+            '# Greeting\ninclude: ./shared.txt\nuser: Hello\nassistant: Hi',
+          ),
+          writeFile(sharedFile, 'system: Be nice\n robot: Beep'),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]).toMatchObject({
+          filePath: sharedFile,
+          line: 2,
+          column: 2,
+          source: ' robot: Beep',
+        });
+        expect(formatLoadError(result.errors[0])).toBe(
+          [
+            `${sharedFile}:2:2: ${result.errors[0].message}`,
+            ' 2 |  robot: Beep',
+            '   |  ^',
+          ].join('\n'),
+        );
+      });
+
+      it('should load text and JSON files into one suite', async () => {
+        loader = new TestCaseLoader(tempDir);
+        await Promise.all([
+          writeFile(
+            join(tempDir, 'greeting.txt'),
+            `user: Hello
+assistant: Hi there`,
+          ),
+          writeFile(
+            join(tempDir, 'exported.jsonl'),
+            JSON.stringify({
+              id: 'bye',
+              messages: [{ role: 'user', content: 'Bye' }],
+              expected: 'Goodbye',
+            }),
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toEqual([]);
+        expect(result.testCases.map((t) => t.id).sort()).toEqual([
+          'exported/bye',
+          'greeting/greeting',
+        ]);
+      });
+
+      it('should report test cases of different files with the same ID', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const content = `user: Hello
+assistant: Hi there`;
+        await Promise.all([
+          writeFile(join(tempDir, 'greeting.txt'), content),
+          writeFile(join(tempDir, 'greeting.md'), content),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir, false);
+
+        expect(result.testCases.map((t) => t.id)).toEqual([
+          'greeting/greeting',
+        ]);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].message).toMatch(
+          /^Duplicate test case ID: greeting\/greeting \(already defined in .*greeting\.(md|txt)\)$/,
+        );
+      });
+
+      it('should handle errors according to stopOnError parameter', async () => {
+        // Create test files with one invalid file
+        const validFile1 = join(tempDir, 'a_valid1.txt');
+        const invalidFile = join(tempDir, 'b_invalid.txt');
+        const validFile2 = join(tempDir, 'c_valid2.txt');
+
+        await Promise.all([
+          writeFile(
+            validFile1,
+            `user: Hello
+assistant: Hi there`,
+          ),
+          writeFile(invalidFile, 'invalid: content'),
+          writeFile(
+            validFile2,
+            `user: How are you?
+assistant: I'm good`,
+          ),
+        ]);
+
+        // Test with stopOnError = true (default)
+        const resultWithStop = await loader.loadFromDirectory(tempDir);
+        expect(resultWithStop.testCases).toHaveLength(1); // Only first valid file processed
+        expect(resultWithStop.errors).toHaveLength(1);
+        expect(resultWithStop.errors[0].filePath).toBe(invalidFile);
+
+        // Test with stopOnError = false
+        const resultWithoutStop = await loader.loadFromDirectory(
+          tempDir,
+          false,
+        );
+        expect(resultWithoutStop.testCases).toHaveLength(2); // Both valid files processed
+        expect(resultWithoutStop.errors).toHaveLength(1);
+        expect(resultWithoutStop.errors[0].filePath).toBe(invalidFile);
+      });
+    });
+
+    describe('test discovery', () => {
+      const content = `user: Hello
+assistant: Hi there`;
+
+      it('should only load files matching the include globs and not the exclude globs', async () => {
+        loader = new TestCaseLoader(tempDir, {
+          include: ['cases/**'],
+          exclude: ['*.md', 'drafts'],
+        });
+        await mkdir(join(tempDir, 'cases', 'drafts'), { recursive: true });
+        await Promise.all([
+          writeFile(join(tempDir, 'cases', 'greeting.txt'), content),
+          writeFile(join(tempDir, 'cases', 'README.md'), '# Notes'),
+          writeFile(join(tempDir, 'cases', 'drafts', 'draft.txt'), content),
+          writeFile(join(tempDir, 'other.txt'), content),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases.map((t) => t.id)).toEqual([
+          'cases/greeting/greeting',
+        ]);
+      });
+
+      it('should leave out the paths listed in ignore files', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const nestedDir = join(tempDir, 'cases');
+        await mkdir(join(nestedDir, 'notes'), { recursive: true });
+        await Promise.all([
+          writeFile(join(tempDir, '.heboevalignore'), '# Docs\n*.md\n'),
+          writeFile(join(nestedDir, '.heboevalignore'), 'notes/\n!KEEP.md\n'),
+          writeFile(join(nestedDir, 'greeting.txt'), content),
+          writeFile(join(nestedDir, 'README.md'), '# Notes'),
+          writeFile(join(nestedDir, 'KEEP.md'), content),
+          writeFile(join(nestedDir, 'notes', 'todo.txt'), 'Write tests'),
+        ]);
+
+        const result = await loader.loadFromDirectory(nestedDir);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases.map((t) => t.id).sort()).toEqual([
+          'cases/KEEP/KEEP',
+          'cases/greeting/greeting',
+        ]);
+      });
+
+      it('should follow symbolic links without looping', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const sharedDir = join(tempDir, 'shared');
+        await mkdir(sharedDir, { recursive: true });
+        await Promise.all([
+          writeFile(join(sharedDir, 'greeting.txt'), content),
+          symlink(sharedDir, join(tempDir, 'linked'), 'dir'),
+          symlink(tempDir, join(sharedDir, 'loop'), 'dir'),
+          symlink(join(tempDir, 'missing'), join(tempDir, 'broken')),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        // Whichever of the link and the directory is listed first is searched
+        const entries = await readdir(tempDir);
+        const [first, second] =
+          entries.indexOf('linked') < entries.indexOf('shared')
+            ? ['linked', 'shared']
+            : ['shared', 'linked'];
+        expect(result.testCases).toHaveLength(1);
+        expect(result.warnings).toHaveLength(3);
+        expect(result.warnings).toEqual(
+          expect.arrayContaining([
+            {
+              filePath: join(tempDir, 'broken'),
+              message: 'Skipped broken symbolic link',
+            },
+            {
+              filePath: join(tempDir, first, 'loop'),
+              message: `Skipped symbolic link to ${await realpath(tempDir)}, which is already searched via ${tempDir}`,
+            },
+            {
+              filePath: join(tempDir, second),
+              message:
+                second === 'shared'
+                  ? `Skipped directory, which is already searched via ${join(tempDir, 'linked')}`
+                  : `Skipped symbolic link to ${await realpath(sharedDir)}, which is already searched via ${sharedDir}`,
+            },
+          ]),
+        );
+      });
+
+      it('should load test cases from several directories and files', async () => {
+        loader = new TestCaseLoader(tempDir, { exclude: ['*.md'] });
+        await mkdir(join(tempDir, 'a'), { recursive: true });
+        await mkdir(join(tempDir, 'b'), { recursive: true });
+        await Promise.all([
+          writeFile(join(tempDir, 'a', 'first.txt'), content),
+          writeFile(join(tempDir, 'b', 'second.md'), content),
+        ]);
+
+        const result = await loader.loadFromPaths([
+          join(tempDir, 'a'),
+          join(tempDir, 'a', 'first.txt'),
+          join(tempDir, 'b', 'second.md'),
+        ]);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases.map((t) => t.id)).toEqual([
+          'a/first/first',
+          'b/second/second',
+        ]);
+      });
+
+      it('should not load attachments as test cases', async () => {
+        loader = new TestCaseLoader(tempDir);
+        await mkdir(join(tempDir, 'fixtures'), { recursive: true });
+        await Promise.all([
+          writeFile(
+            join(tempDir, 'summary.txt'),
+            `user: Summarize these notes
+attachment: ./fixtures/notes.md
+assistant: They are about testing`,
+          ),
+          writeFile(
+            join(tempDir, 'report.yaml'),
+            `tests:
+  - name: Report
+    messages:
+      - role: user
+        content: Summarize this data
+        attachments: [fixtures/data.csv]
+      - assistant: It is about sales`,
+          ),
+          writeFile(join(tempDir, 'fixtures', 'notes.md'), '# Notes'),
+          writeFile(join(tempDir, 'fixtures', 'data.csv'), 'month,sales'),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases.map((t) => t.id).sort()).toEqual([
+          'report/Report',
+          'summary/summary',
+        ]);
+      });
+
+      it('should not treat file paths in message text as references', async () => {
+        loader = new TestCaseLoader(tempDir);
+        await Promise.all([
+          writeFile(
+            join(tempDir, 'config.txt'),
+            `user: What does this config do?
+\`\`\`yaml
+data: greeting.txt
+attachment: greeting.txt
+\`\`\`
+assistant: It loads the greeting`,
+          ),
+          writeFile(
+            join(tempDir, 'greeting.txt'),
+            `user: Hello
+assistant: Hi there`,
+          ),
+        ]);
+
+        const result = await loader.loadFromDirectory(tempDir);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases.map((t) => t.id).sort()).toEqual([
+          'config/config',
+          'greeting/greeting',
+        ]);
+      });
+
+      it('should load only the test cases selected by title', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const file = join(tempDir, 'weather.txt');
+        await writeFile(
+          file,
+          `# Paris
+user: Weather in Paris?
+assistant: Sunny
+---
+# London
+user: Weather in London?
+assistant: Cloudy
+---
+# Berlin
+user: Weather in Berlin?
+assistant: Rainy`,
+        );
+
+        const result = await loader.loadFromPaths([
+          `${file}#Berlin`,
+          `${file}#Paris`,
+        ]);
+
+        expect(result.errors).toHaveLength(0);
+        expect(result.testCases.map((t) => t.name)).toEqual([
+          'Paris',
+          'Berlin',
+        ]);
+      });
+
+      it('should report selected titles that are not in the file', async () => {
+        loader = new TestCaseLoader(tempDir);
+        const file = join(tempDir, 'weather.txt');
+        await writeFile(file, `# Paris\n${content}`);
+
+        const result = await loader.loadFromPaths([`${file}#Rome`]);
+
+        expect(result.testCases).toHaveLength(0);
+        expect(result.errors.map((e) => e.message)).toEqual([
+          `No test case titled "Rome" in ${file}`,
+        ]);
+      });
+
+      it('should split selectors at the first #', () => {
+        expect(parseTestCaseSelector('tests/weather.txt')).toEqual({
+          path: 'tests/weather.txt',
+        });
+        expect(parseTestCaseSelector('tests/weather.txt#Issue #12 ')).toEqual({
+          path: 'tests/weather.txt',
+          title: 'Issue #12',
+        });
+      });
+
+      it('should match globs against names or whole paths', () => {
+        expect(matchesGlob('drafts/README.md', '*.md')).toBe(true);
+        expect(matchesGlob('drafts/README.md', 'drafts/*.{md,txt}')).toBe(true);
+        expect(matchesGlob('drafts/README.md', '/README.md')).toBe(false);
+        expect(matchesGlob('a/b/c/test.txt', 'a/**/test.txt')).toBe(true);
+        expect(matchesGlob('a/test.txt', 'a/**/test.txt')).toBe(true);
+        expect(matchesGlob('a/b/test.txt', 'a/*.txt')).toBe(false);
+      });
+    });
+
+    describe('TestCaseValidator', () => {
+      it('should report parse errors, warnings and structural problems of all files', async () => {
+        await Promise.all([
+          writeFile(join(tempDir, 'a_invalid.txt'), 'user: Hi\nrobot: Beep'),
+          writeFile(
+            join(tempDir, 'b_problems.txt'),
+            `# Unanswered
+user: Hello
+---
+# Lookup
+user: Find Paris
+assistant: Looking it up
+tool use: search args: {}
+assistant: Found it`,
+          ),
+        ]);
+
+        const result = await new TestCaseValidator(
+          new TestCaseLoader(tempDir),
+        ).validateDirectory(tempDir);
+
+        expect(result.testCaseCount).toBe(2);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]).toMatchObject({
+          filePath: join(tempDir, 'a_invalid.txt'),
+          line: 2,
+        });
+        expect(result.warnings).toEqual([
+          expect.objectContaining({
+            filePath: join(tempDir, 'b_problems.txt'),
+            line: 7,
+            message: 'tool_use should be followed by args or tool_response',
+          }),
+        ]);
+        expect(result.problems).toEqual([
+          {
+            testCaseId: 'b_problems/Unanswered',
+            message: 'Test case must have at least two messages',
+          },
+          {
+            testCaseId: 'b_problems/Unanswered',
+            message: 'Test case must end with an assistant message, not user',
+          },
+          {
+            testCaseId: 'b_problems/Lookup',
+            message: 'Tool use "search" has no tool response',
+          },
+        ]);
+      });
+
+      it('should report tool uses without a tool response', () => {
+        const testCase = new Parser().parse(
+          'user: What time is it?\nassistant: Let me check\ntool use: get_time args: {}\ntool use: get_zone args: {}\ntool response: 12:00\nassistant: It is noon',
+          'time',
+          'suite/time',
+        );
+
+        expect(new TestCaseValidator().validateTestCases([testCase])).toEqual([
+          {
+            testCaseId: 'suite/time',
+            message: 'Tool use "get_zone" has no tool response',
+          },
+        ]);
+      });
+
+      it('should report duplicate test case IDs once', () => {
+        const testCase = new Parser().parse(
+          'user: Hi\nassistant: Hello',
+          'greeting',
+          'suite/greeting',
+        );
+
+        expect(
+          new TestCaseValidator().validateTestCases([
+            testCase,
+            testCase,
+            testCase,
+          ]),
+        ).toEqual([
+          {
+            testCaseId: 'suite/greeting',
+            message: 'Test case ID is used by 3 test cases',
+          },
+        ]);
       });
     });
   });
@@ -16,6 +16,10 @@ describe('ReportGenerator', () => {
     totalTests: 2,
     passedTests: 1,
     failedTests: 1,
+    filteredTests: 0,
+    skippedTests: 0,
+    expectedFailures: 0,
+    unexpectedPasses: 0,
     passRate: 0.5,
     results: [
       {
@@ -26,6 +30,7 @@ describe('ReportGenerator', () => {
         },
         response: '4',
         score: 1,
+        threshold: 0.8,
         passed: true,
         timestamp: new Date(),
       },
@@ -37,6 +42,7 @@ describe('ReportGenerator', () => {
         },
         response: '6',
         score: 0,
+        threshold: 0.8,
         passed: false,
         timestamp: new Date(),
       },
@@ -117,6 +123,32 @@ describe('ReportGenerator', () => {
       expect(report).toContain('Duration: 1.50s');
     });
 
+    it('should include the number of filtered test cases when present', () => {
+      const report = reportGenerator.generateReport({
+        ...sampleReport,
+        filteredTests: 3,
+      });
+      expect(report).toContain('Filtered: 3');
+      expect(reportGenerator.generateReport(sampleReport)).not.toContain(
+        'Filtered',
+      );
+    });
+
+    it('should count skipped test cases and expected failures separately', () => {
+      const report = reportGenerator.generateReport({
+        ...sampleReport,
+        skippedTests: 2,
+        expectedFailures: 1,
+        unexpectedPasses: 1,
+      });
+      expect(report).toContain('Skipped: 2');
+      expect(report).toContain('Expected failures: 1');
+      expect(report).toContain('Unexpected passes: 1');
+      expect(reportGenerator.generateReport(sampleReport)).not.toContain(
+        'Skipped',
+      );
+    });
+
     it('should handle reports with errors', () => {
       const errorReport: EvaluationReport = {
         ...sampleReport,
@@ -130,6 +162,7 @@ describe('ReportGenerator', () => {
             },
             response: '',
             score: 0,
+            threshold: 0.8,
             passed: false,
             error: 'Invalid input',
             timestamp: new Date(),
@@ -3,6 +3,15 @@ import { ScoringService } from '../scoring/scoring.service.js';
 import { IEmbeddingProvider } from '../embeddings/interfaces/embedding-provider.interface.js';
 import { EmbeddingResponse } from '../embeddings/types/embedding.types.js';
 import { calculateCosineSimilarity } from '../scoring/utils/cosine-similarity.js';
+import {
+  evaluateAssertions,
+  formatAssertion,
+} from '../scoring/utils/assertions.js';
+import {
+  evaluateToolCalls,
+  formatToolCallResult,
+  scoreToolCalls,
+} from '../scoring/utils/tool-calls.js';
 
 describe('Cosine Similarity', () => {
   it('should calculate correct cosine similarity for identical vectors', () => {
@@ -41,6 +50,109 @@ describe('Cosine Similarity', () => {
   });
 });
 
+describe('Assertions', () => {
+  const response = "It's rainy in New York, with a temperature of 59°F.";
+
+  it('should evaluate each assertion type', () => {
+    const results = evaluateAssertions(response, [
+      { type: 'contains', value: '59°F' },
+      { type: 'not-contains', value: 'As an AI' },
+      { type: 'regex', value: 'new york', flags: 'i' },
+      { type: 'equals', value: 'Sunny' },
+    ]);
+
+    expect(results.map((result) => result.passed)).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it('should format assertions as they are written in test files', () => {
+    expect(formatAssertion({ type: 'contains', value: '59°F' })).toBe(
+      'contains "59°F"',
+    );
+    expect(formatAssertion({ type: 'regex', value: 'AAPL', flags: 'i' })).toBe(
+      'regex /AAPL/i',
+    );
+  });
+});
+
+describe('Tool Calls', () => {
+  const weather = { name: 'get_weather', args: '{"city": "New York"}' };
+  const time = { name: 'get_time', args: '{"zone": "EST"}' };
+
+  it('should match calls by name and equal arguments', () => {
+    const results = evaluateToolCalls(
+      [{ name: 'get_weather', args: '{"city":"New York"}' }],
+      [weather, time],
+    );
+
+    expect(results).toEqual([
+      {
+        name: 'get_weather',
+        expectedArgs: '{"city": "New York"}',
+        actualArgs: '{"city":"New York"}',
+        passed: true,
+      },
+      {
+        name: 'get_time',
+        expectedArgs: '{"zone": "EST"}',
+        passed: false,
+        reason: 'not called',
+      },
+    ]);
+    expect(scoreToolCalls(results)).toBe(0.5);
+  });
+
+  it('should compare arguments exactly or as a subset', () => {
+    const actual = [
+      { name: 'get_weather', args: '{"city": "New York", "unit": "F"}' },
+    ];
+
+    expect(evaluateToolCalls(actual, [weather])[0]).toMatchObject({
+      passed: false,
+      reason: 'different arguments',
+    });
+    expect(
+      evaluateToolCalls(actual, [weather], { args: 'subset' })[0].passed,
+    ).toBe(true);
+  });
+
+  it('should accept any arguments for calls expected with args: *', () => {
+    const actual = [{ name: 'get_weather', args: '{"city": "Paris"}' }];
+
+    expect(
+      evaluateToolCalls(actual, [{ name: 'get_weather', args: '*' }])[0].passed,
+    ).toBe(true);
+  });
+
+  it('should check the order of calls unless any order is allowed', () => {
+    const actual = [time, weather];
+
+    expect(
+      evaluateToolCalls(actual, [weather, time]).map(({ reason }) => reason),
+    ).toEqual([undefined, 'out of order']);
+    expect(
+      evaluateToolCalls(actual, [weather, time], { order: 'any' }).every(
+        ({ passed }) => passed,
+      ),
+    ).toBe(true);
+  });
+
+  it('should format failed calls with the reason', () => {
+    const [result] = evaluateToolCalls(
+      [{ name: 'get_weather', args: '{"city": "Paris"}' }],
+      [weather],
+    );
+
+    expect(formatToolCallResult(result)).toBe(
+      'get_weather args: {"city": "New York"} (different arguments, got {"city": "Paris"})',
+    );
+  });
+});
+
 describe('ScoringService', () => {
   let mockEmbeddingProvider: jest.Mocked<IEmbeddingProvider>;
   let scoringService: ScoringService;
@@ -118,4 +230,51 @@ describe('ScoringService', () => {
       'Failed to calculate similarity score: Vectors must have the same dimensions',
     );
   });
+
+  describe('scoreAgainstReferences', () => {
+    const embedding = (vector: number[]): EmbeddingResponse => ({
+      embedding: vector,
+      metadata: {
+        model: 'test-model',
+        provider: 'test-provider',
+      },
+    });
+
+    beforeEach(() => {
+      // Response, then one embedding per reference
+      mockEmbeddingProvider.generateEmbedding
+        .mockImplementationOnce(() => Promise.resolve(embedding([1, 0])))
+        .mockImplementationOnce(() => Promise.resolve(embedding([0, 1])))
+        .mockImplementationOnce(() => Promise.resolve(embedding([1, 0])));
+    });
+
+    it('should keep the best score and report the matched reference', async () => {
+      const result = await scoringService.scoreAgainstReferences('4', [
+        'The answer is 4',
+        '4',
+      ]);
+
+      expect(result.score).toBe(1);
+      expect(result.matchedReference).toBe(1);
+      expect(result.scores).toEqual([0, 1]);
+      expect(mockEmbeddingProvider.generateEmbedding.mock.calls.length).toBe(3);
+    });
+
+    it('should average the scores in mean mode', async () => {
+      const result = await scoringService.scoreAgainstReferences(
+        '4',
+        ['The answer is 4', '4'],
+        'mean',
+      );
+
+      expect(result.score).toBe(0.5);
+      expect(result.matchedReference).toBe(1);
+    });
+
+    it('should require at least one reference', async () => {
+      await expect(
+        scoringService.scoreAgainstReferences('4', []),
+      ).rejects.toThrow('At least one reference is required for scoring');
+    });
+  });
 });
@@ -20,6 +20,11 @@ const formatMessageBlockPlain = (block: BaseMessage): string => {
   // Show the role as it would appear in the test case file
   lines.push(`${block.role.replace(/_/g, ' ')}: ${block.content}`.trim());
 
+  // Show attachments (if any)
+  for (const attachment of block.attachments ?? []) {
+    lines.push(`attachment: ${attachment.path}`);
+  }
+
   // Show tool usages (if any)
   if (block.toolUsages && block.toolUsages.length > 0) {
     for (const usage of block.toolUsages) {
@@ -34,5 +39,12 @@ const formatMessageBlockPlain = (block: BaseMessage): string => {
     }
   }
 
+  // Show alternative references (if any)
+  if (block.alternatives && block.alternatives.length > 0) {
+    for (const alternative of block.alternatives) {
+      lines.push(`assistant (alt): ${alternative}`);
+    }
+  }
+
   return lines.join('\n');
 };
@@ -1,3 +1,5 @@
+import { MarkedOutcome } from '../evaluation/types/test-case.types.js';
+
 /**
  * Icons for different message types
  */
@@ -77,8 +79,13 @@ export class Logger {
   private static testResults: Array<{
     id: string;
     passed: boolean;
+    outcome?: MarkedOutcome;
     error?: string;
     score: number;
+    threshold?: number;
+    assertions?: Array<{ description: string; passed: boolean }>;
+    toolCalls?: Array<{ description: string; passed: boolean }>;
+    turns?: Array<{ turn: number; score: number; passed: boolean }>;
     executionTime: number;
     testCase: {
       input: string;
@@ -213,6 +220,16 @@ export class Logger {
     }
   }
 
+  /**
+   * Logs an error message whatever the verbosity, for failures that end a
+   * command
+   * @param message The message to log
+   */
+  static fatal(message: unknown): void {
+    const messageStr = typeof message === 'string' ? message : String(message);
+    console.error(Logger.formatMessage(messageStr, 'error'));
+  }
+
   /**
    * Logs a warning message
    * @param message The message to log
@@ -296,8 +313,13 @@ export class Logger {
    * Logs a test result
    * @param id Test case ID
    * @param passed Whether the test passed
+   * @param outcome Outcome of a test marked skip or xfail, shown instead of passed or failed
    * @param error Optional error message
    * @param score Test score
+   * @param threshold Score required to pass the test
+   * @param matchedReference Index of the reference that matched (0 for the expected message)
+   * @param assertions Outcome of each declared assertion
+   * @param toolCalls Outcome of each recorded tool call
    * @param executionTime Execution time in milliseconds
    * @param testCase Optional test case information
    * @param response Optional response information
@@ -306,23 +328,45 @@ export class Logger {
     id: string,
     passed: boolean,
     details: {
+      outcome?: MarkedOutcome;
       error?: string;
       score?: number;
+      threshold?: number;
+      matchedReference?: number;
+      assertions?: Array<{ description: string; passed: boolean }>;
+      toolCalls?: Array<{ description: string; passed: boolean }>;
+      turns?: Array<{ turn: number; score: number; passed: boolean }>;
       executionTime?: number;
       testCase?: { input: string; expected: string };
       response?: string;
     } = {},
   ): void {
-    const color = passed ? COLORS.test.pass : COLORS.test.fail;
-    const status = passed ? 'Passed' : 'Failed';
-    const formattedString = `${color}${status}${COLORS.reset} ${id}`;
+    const color = details.outcome
+      ? COLORS.test.skip
+      : passed
+        ? COLORS.test.pass
+        : COLORS.test.fail;
+    const status = details.outcome
+      ? details.outcome.charAt(0).toUpperCase() + details.outcome.slice(1)
+      : passed
+        ? 'Passed'
+        : 'Failed';
+    const matchedAlternative = details.matchedReference
+      ? ` (matched alternative ${details.matchedReference})`
+      : '';
+    const formattedString = `${color}${status}${COLORS.reset} ${id}${matchedAlternative}`;
 
     // Store the result for the final summary
     Logger.testResults.push({
       id,
       passed,
+      outcome: details.outcome,
       error: details.error,
       score: details.score ?? 0,
+      threshold: details.threshold,
+      assertions: details.assertions,
+      toolCalls: details.toolCalls,
+      turns: details.turns,
       executionTime: details.executionTime ?? 0,
       testCase: details.testCase ?? { input: '', expected: '' },
       response: details.response ?? '',
@@ -336,12 +380,19 @@ export class Logger {
    * @param passed Number of passed tests
    * @param failed Number of failed tests
    * @param duration Total execution time in seconds
+   * @param details Optional counts of test cases that were not run or are marked xfail
    */
   static testSummary(
     total: number,
     passed: number,
     failed: number,
     duration: number,
+    details: {
+      filtered?: number;
+      skipped?: number;
+      expectedFailures?: number;
+      unexpectedPasses?: number;
+    } = {},
   ): void {
     // Clear any existing output
     process.stdout.write('\r\x1b[K');
@@ -359,16 +410,48 @@ export class Logger {
       console.log('\nFailed Tests');
       console.log('------------');
       Logger.testResults
-        .filter((result) => !result.passed)
+        .filter((result) => !result.passed && !result.outcome)
         .forEach((result) => {
           console.log(`\n${result.id}`);
           console.log(`Status: ${COLORS.test.fail}Failed${COLORS.reset}`);
           if (result.score !== undefined) {
             console.log(`Score: ${result.score.toFixed(3)}`);
           }
+          if (result.threshold !== undefined) {
+            console.log(`Threshold: ${result.threshold.toFixed(3)}`);
+          }
           if (result.executionTime) {
             console.log(`Time: ${result.executionTime.toFixed(2)}ms`);
           }
+          if (result.assertions && result.assertions.length > 0) {
+            console.log('\nAssertions:');
+            result.assertions.forEach((assertion) => {
+              const icon = assertion.passed
+                ? `${COLORS.test.pass}${ICONS.test.pass}`
+                : `${COLORS.test.fail}${ICONS.test.fail}`;
+              console.log(`${icon}${COLORS.reset} ${assertion.description}`);
+            });
+          }
+          if (result.toolCalls && result.toolCalls.length > 0) {
+            console.log('\nTool Calls:');
+            result.toolCalls.forEach((toolCall) => {
+              const icon = toolCall.passed
+                ? `${COLORS.test.pass}${ICONS.test.pass}`
+                : `${COLORS.test.fail}${ICONS.test.fail}`;
+              console.log(`${icon}${COLORS.reset} ${toolCall.description}`);
+            });
+          }
+          if (result.turns && result.turns.length > 0) {
+            console.log('\nTurns:');
+            result.turns.forEach((turn) => {
+              const icon = turn.passed
+                ? `${COLORS.test.pass}${ICONS.test.pass}`
+                : `${COLORS.test.fail}${ICONS.test.fail}`;
+              console.log(
+                `${icon}${COLORS.reset} Turn ${turn.turn}: ${turn.score.toFixed(3)}`,
+              );
+            });
+          }
           console.log('\nInput:');
           console.log(result.testCase.input);
           console.log('\nExpected Output:');
@@ -389,6 +472,24 @@ export class Logger {
     console.log(`Total: ${total}`);
     console.log(`${COLORS.test.pass}Passed: ${passed}${COLORS.reset}`);
     console.log(`${COLORS.test.fail}Failed: ${failed}${COLORS.reset}`);
+    if (details.filtered) {
+      console.log(`Filtered: ${details.filtered}`);
+    }
+    if (details.skipped) {
+      console.log(
+        `${COLORS.test.skip}Skipped: ${details.skipped}${COLORS.reset}`,
+      );
+    }
+    if (details.expectedFailures) {
+      console.log(
+        `${COLORS.test.skip}Expected failures: ${details.expectedFailures}${COLORS.reset}`,
+      );
+    }
+    if (details.unexpectedPasses) {
+      console.log(
+        `${COLORS.test.skip}Unexpected passes: ${details.unexpectedPasses}${COLORS.reset}`,
+      );
+    }
     console.log(`Duration: ${duration.toFixed(2)}s`);
 
     // Clear test results after summary